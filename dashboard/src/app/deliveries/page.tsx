@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Inbox, RefreshCw, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Delivery, DeliveryStatus, replayDelivery, useDeliveries } from '@/lib/deliveries';
+
+const STATUS_FILTERS: (DeliveryStatus | null)[] = [null, 'queued', 'handled', 'denied', 'duplicate', 'ignored', 'rejected', 'failed'];
+
+const STATUS_VARIANTS: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline' | 'success' | 'warning' | 'info'> = {
+  received: 'outline',
+  queued: 'success',
+  handled: 'info',
+  denied: 'warning',
+  duplicate: 'secondary',
+  ignored: 'outline',
+  rejected: 'destructive',
+  failed: 'destructive',
+};
+
+export default function DeliveriesPage() {
+  const [status, setStatus] = useState<DeliveryStatus | null>(null);
+  const [replayState, setReplayState] = useState<Record<string, string>>({});
+  const { deliveries, error, loading, refresh } = useDeliveries(status);
+
+  const replay = async (delivery: Delivery, force: boolean) => {
+    const prompt = force
+      ? `Replay delivery ${delivery.deliveryId ?? delivery.id} even if it was already handled? This can queue another Gemini run.`
+      : `Replay delivery ${delivery.deliveryId ?? delivery.id}?`;
+    if (!window.confirm(prompt)) return;
+
+    setReplayState(prev => ({ ...prev, [delivery.id]: 'Replaying...' }));
+    const result = await replayDelivery(delivery.id, force);
+    setReplayState(prev => ({
+      ...prev,
+      [delivery.id]: result.error ? `Replay failed: ${result.error}` : `Replayed: ${result.status}`,
+    }));
+    refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between py-6">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5" />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="w-px h-6 bg-gray-300"></div>
+
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Inbox className="h-5 w-5 text-blue-600" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900">
+                    Webhook Deliveries
+                  </h1>
+                  <p className="text-sm text-gray-500">
+                    Every delivery received, what was decided and the job it queued
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={refresh}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Status filter */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter ?? 'all'}
+              onClick={() => setStatus(filter)}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                status === filter
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-gray-400'
+              }`}
+            >
+              {filter ?? 'all'}
+            </button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {deliveries.length} {status ?? ''} deliveries
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <p className="text-sm text-red-600 mb-4">Failed to load deliveries: {error}</p>
+            )}
+
+            {!error && deliveries.length === 0 && !loading && (
+              <p className="text-sm text-gray-500">No deliveries in the inbox.</p>
+            )}
+
+            {deliveries.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Received</th>
+                      <th className="py-2 pr-4 font-medium">Event</th>
+                      <th className="py-2 pr-4 font-medium">Repository</th>
+                      <th className="py-2 pr-4 font-medium">Signature</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Decision</th>
+                      <th className="py-2 font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {deliveries.map(delivery => (
+                      <tr key={delivery.id} className="border-b last:border-0 align-top">
+                        <td className="py-3 pr-4 whitespace-nowrap">
+                          <div>{new Date(delivery.receivedAt).toLocaleString()}</div>
+                          <div className="text-xs text-gray-500 font-mono">{delivery.deliveryId ?? delivery.id}</div>
+                          {delivery.replayOf && (
+                            <div className="text-xs text-gray-500">replay</div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div>{delivery.event ?? 'unknown'}</div>
+                          {delivery.provider && delivery.provider !== 'github' && (
+                            <div className="text-xs text-gray-500">{delivery.provider}</div>
+                          )}
+                          {delivery.action && (
+                            <div className="text-xs text-gray-500">{delivery.action}</div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div>{delivery.repository ?? '-'}</div>
+                          {delivery.sender && (
+                            <div className="text-xs text-gray-500">@{delivery.sender}</div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div>{delivery.verification ?? '-'}</div>
+                          {delivery.verificationDetail && (
+                            <div className="text-xs text-gray-500">{delivery.verificationDetail}</div>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                            {delivery.status}
+                          </Badge>
+                        </td>
+                        <td className="py-3 pr-4 max-w-md">
+                          <div className="break-words">{delivery.decision ?? '-'}</div>
+                          {delivery.jobId && (
+                            <Link href={`/job/${delivery.jobId}`} className="text-xs text-blue-600 hover:underline font-mono">
+                              {delivery.jobId}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="py-3 whitespace-nowrap text-right">
+                          <div className="flex gap-2 justify-end">
+                            <button
+                              onClick={() => replay(delivery, false)}
+                              disabled={delivery.bodyTruncated}
+                              className="flex items-center gap-1 text-xs text-gray-700 hover:text-gray-900 disabled:opacity-40"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              Replay
+                            </button>
+                            <button
+                              onClick={() => replay(delivery, true)}
+                              disabled={delivery.bodyTruncated}
+                              className="text-xs text-red-600 hover:text-red-800 disabled:opacity-40"
+                            >
+                              Force
+                            </button>
+                          </div>
+                          {replayState[delivery.id] && (
+                            <div className="text-xs text-gray-500 mt-1">{replayState[delivery.id]}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -72,7 +72,7 @@ export default function JobPage({ params }: JobPageProps) {
                   </p>
                 </div>
                 <div className="text-xs text-gray-500 border-t pt-4">
-                  Live logs will stream automatically as the job processes.
+                  Earlier output is replayed when you open this page; new lines stream in as the job processes.
                 </div>
               </CardContent>
             </Card>
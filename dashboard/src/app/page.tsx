@@ -2,7 +2,8 @@
 
 import { useSocket } from '@/lib/socket';
 import { QueueStats } from '@/components/QueueStats';
-import { Activity, RefreshCw } from 'lucide-react';
+import { Activity, Inbox, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
 
 export default function Dashboard() {
   const { connected, queueStats } = useSocket();
@@ -27,7 +28,15 @@ export default function Dashboard() {
               </div>
             </div>
             
-            <div className="flex items-center gap-2">
+            <div className="flex items-center gap-6">
+              <Link
+                href="/deliveries"
+                className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <Inbox className="h-4 w-4" />
+                <span>Deliveries</span>
+              </Link>
+
               {connected ? (
                 <div className="flex items-center gap-2 text-green-600">
                   <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
@@ -21,6 +21,8 @@ export function JobCard({ job }: JobCardProps) {
         return 'info';
       case 'waiting':
         return 'warning';
+      case 'cancelled':
+        return 'secondary';
       default:
         return 'default';
     }
@@ -36,6 +38,8 @@ export function JobCard({ job }: JobCardProps) {
         return '🚀';
       case 'waiting':
         return '⏳';
+      case 'cancelled':
+        return '🛑';
       default:
         return '📋';
     }
@@ -1,17 +1,18 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useJobLogs } from '@/lib/socket';
-import { Terminal, Download } from 'lucide-react';
+import { Terminal, Download, StopCircle } from 'lucide-react';
 
 interface LogStreamProps {
   jobId: string;
 }
 
 export function LogStream({ jobId }: LogStreamProps) {
-  const { logs } = useJobLogs(jobId);
+  const { logs, cancelJob } = useJobLogs(jobId);
   const logEndRef = useRef<HTMLDivElement>(null);
+  const [cancelState, setCancelState] = useState<string | null>(null);
 
   // Auto-scroll to bottom when new logs arrive
   useEffect(() => {
@@ -48,6 +49,22 @@ export function LogStream({ jobId }: LogStreamProps) {
     URL.revokeObjectURL(url);
   };
 
+  const requestCancel = async () => {
+    if (!window.confirm(`Cancel job ${jobId}?`)) return;
+
+    setCancelState('Cancelling...');
+    const result = await cancelJob();
+    if (result.error) {
+      setCancelState(`Cancel failed: ${result.error}`);
+    } else if (result.outcome === 'finished') {
+      setCancelState('Job already finished');
+    } else if (result.outcome === 'not_found') {
+      setCancelState('Job not found');
+    } else {
+      setCancelState('Cancelled');
+    }
+  };
+
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="pb-3 flex-shrink-0">
@@ -60,6 +77,17 @@ export function LogStream({ jobId }: LogStreamProps) {
             <span className="text-sm text-muted-foreground">
               {logs.length} lines
             </span>
+            {cancelState && (
+              <span className="text-xs text-muted-foreground">{cancelState}</span>
+            )}
+            <button
+              onClick={requestCancel}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-red-100 text-red-700 hover:bg-red-200 rounded transition-colors"
+              disabled={cancelState === 'Cancelling...'}
+            >
+              <StopCircle className="h-3 w-3" />
+              Cancel
+            </button>
             <button
               onClick={downloadLogs}
               className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
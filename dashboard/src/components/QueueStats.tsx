@@ -59,6 +59,11 @@ export function QueueStats({ stats, connected }: QueueStatsProps) {
           <p className="text-xs text-muted-foreground">
             {stats.waiting} waiting in queue
           </p>
+          {stats.lanes && stats.waiting > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {stats.lanes.high} high · {stats.lanes.normal} normal · {stats.lanes.low} low
+            </p>
+          )}
           {stats.waiting > 0 && (
             <div className="mt-2">
               <div className="flex justify-between text-xs mb-1">
@@ -0,0 +1,27 @@
+'use client';
+
+// Kept for the browser session only - it unlocks cancelling jobs and the delivery inbox
+const STORAGE_KEY = 'gemini-factory-admin-token';
+
+// The server's ADMIN_TOKEN, asked for the first time an admin action needs it unless `ask` is false
+export function getAdminToken(ask = true): string | null {
+  let token = window.sessionStorage.getItem(STORAGE_KEY);
+  if (!token && ask) {
+    token = window.prompt('Admin token (ADMIN_TOKEN on the factory server)')?.trim() || null;
+    if (token) {
+      window.sessionStorage.setItem(STORAGE_KEY, token);
+    }
+  }
+  return token;
+}
+
+// Drops a token the server refused, so the next admin action asks again
+export function forgetAdminToken(): void {
+  window.sessionStorage.removeItem(STORAGE_KEY);
+}
+
+// Headers for admin REST calls, or null when no token was given
+export function adminHeaders(ask = true): Record<string, string> | null {
+  const token = getAdminToken(ask);
+  return token ? { Authorization: `Bearer ${token}` } : null;
+}
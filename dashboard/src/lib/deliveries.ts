@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { SOCKET_URL } from '@/lib/socket';
+import { adminHeaders, forgetAdminToken } from '@/lib/admin';
+
+export type DeliveryStatus =
+  | 'received'
+  | 'rejected'
+  | 'ignored'
+  | 'duplicate'
+  | 'denied'
+  | 'handled'
+  | 'queued'
+  | 'failed';
+
+// A webhook delivery as stored in the server's inbox
+export interface Delivery {
+  id: string;
+  provider?: 'github' | 'gitlab' | 'gitea';
+  deliveryId?: string;
+  event?: string;
+  action?: string;
+  repository?: string;
+  sender?: string;
+  receivedAt: string;
+  remoteAddress?: string;
+  bodyBytes: number;
+  bodyTruncated: boolean;
+  verification?: 'verified' | 'unsigned' | 'rejected';
+  verificationDetail?: string;
+  status: DeliveryStatus;
+  decision?: string;
+  jobId?: string;
+  replayOf?: string;
+}
+
+export interface ReplayResult {
+  id?: string;
+  status?: DeliveryStatus;
+  statusCode?: number;
+  error?: string;
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+// Hook for the delivery inbox, refreshed periodically. The inbox needs the admin token; only
+// loads the user started ask for it, so a dismissed prompt doesn't come back on every refresh.
+export function useDeliveries(status: DeliveryStatus | null) {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async (ask: boolean) => {
+    try {
+      const auth = adminHeaders(ask);
+      if (!auth) {
+        throw new Error('Admin token required');
+      }
+
+      const query = new URLSearchParams({ limit: '100' });
+      if (status) {
+        query.set('status', status);
+      }
+
+      const response = await fetch(`${SOCKET_URL}/deliveries?${query}`, { headers: auth });
+      if (response.status === 401) {
+        forgetAdminToken();
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setDeliveries(data.deliveries);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  useEffect(() => {
+    setLoading(true);
+    load(true);
+
+    const interval = setInterval(() => load(false), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  return { deliveries, error, loading, refresh };
+}
+
+// Pushes a stored delivery through the webhook pipeline again
+export async function replayDelivery(id: string, force: boolean): Promise<ReplayResult> {
+  const auth = adminHeaders();
+  if (!auth) {
+    return { error: 'Admin token required' };
+  }
+
+  try {
+    const response = await fetch(`${SOCKET_URL}/deliveries/${id}/replay`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...auth },
+      body: JSON.stringify({ force }),
+    });
+    if (response.status === 401) {
+      forgetAdminToken();
+    }
+    return await response.json();
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -1,10 +1,11 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { forgetAdminToken, getAdminToken } from '@/lib/admin';
 
-// Use environment variable or fallback to server IP
-const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://192.168.1.75:5000';
+// Use environment variable or fallback to server IP - the REST API is served from the same origin
+export const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://192.168.1.75:5000';
 
 class SocketManager {
   private socket: Socket | null = null;
@@ -65,7 +66,7 @@ const socketManager = new SocketManager();
 // Job status from the server
 export interface JobStatus {
   id: string;
-  status: 'waiting' | 'running' | 'completed' | 'failed';
+  status: 'waiting' | 'running' | 'completed' | 'failed' | 'cancelled';
   repository?: string;
   user?: string;
   timestamp: string;
@@ -78,6 +79,7 @@ export interface QueueStats {
   completed: number;
   failed: number;
   isPaused: boolean;
+  lanes?: { high: number; normal: number; low: number }; // waiting jobs per priority lane
 }
 
 // Hook for real-time connection to the Gemini Coding Factory
@@ -125,6 +127,10 @@ export function useSocket() {
       // Could trigger an error notification here
     });
 
+    newSocket.on('job:cancelled', (data: JobStatus) => {
+      console.log('Job cancelled:', data);
+    });
+
     // Queue statistics updates
     newSocket.on('queue:stats', (stats: QueueStats) => {
       setQueueStats(stats);
@@ -153,31 +159,62 @@ export function useSocket() {
   };
 }
 
-// Hook for tailing specific job logs
+// A stored log line; seq is assigned by the server and has no gaps within a job
+export interface JobLogLine {
+  seq: number | null;
+  type: 'stdout' | 'stderr';
+  line: string;
+  timestamp: string;
+}
+
+// Hook for tailing specific job logs, including lines written before the page was opened
 export function useJobLogs(jobId: string | null) {
   const [socket, setSocket] = useState<Socket | null>(null);
-  const [logs, setLogs] = useState<Array<{ type: 'stdout' | 'stderr'; line: string; timestamp: string }>>([]);
+  const [logs, setLogs] = useState<JobLogLine[]>([]);
+  const lastSeq = useRef(0);
 
   useEffect(() => {
     if (!jobId) return;
 
+    lastSeq.current = 0;
+    setLogs([]);
+
     const newSocket = socketManager.connect();
     setSocket(newSocket);
 
+    // Backlog replay and live lines can overlap, so only keep lines past the last seen seq
+    const appendLines = (lines: JobLogLine[]) => {
+      const fresh = lines.filter(log => log.seq === null || log.seq > lastSeq.current);
+      if (fresh.length === 0) return;
+
+      for (const log of fresh) {
+        if (log.seq !== null) {
+          lastSeq.current = Math.max(lastSeq.current, log.seq);
+        }
+      }
+      setLogs(prev => [...prev, ...fresh]);
+    };
+
     newSocket.on('connect', () => {
-      // Join the job-specific room for log streaming
-      newSocket.emit('tail', jobId);
+      // Join the job-specific room and replay anything we haven't seen yet
+      newSocket.emit('tail', jobId, lastSeq.current);
     });
 
-    newSocket.on('job:stdout', (data: { jobId: string; line: string; timestamp: string }) => {
+    newSocket.on('job:backlog', (data: { jobId: string; entries: JobLogLine[] }) => {
       if (data.jobId === jobId) {
-        setLogs(prev => [...prev, { type: 'stdout', line: data.line, timestamp: data.timestamp }]);
+        appendLines(data.entries);
       }
     });
 
-    newSocket.on('job:stderr', (data: { jobId: string; line: string; timestamp: string }) => {
+    newSocket.on('job:stdout', (data: { jobId: string; seq: number | null; line: string; timestamp: string }) => {
       if (data.jobId === jobId) {
-        setLogs(prev => [...prev, { type: 'stderr', line: data.line, timestamp: data.timestamp }]);
+        appendLines([{ seq: data.seq, type: 'stdout', line: data.line, timestamp: data.timestamp }]);
+      }
+    });
+
+    newSocket.on('job:stderr', (data: { jobId: string; seq: number | null; line: string; timestamp: string }) => {
+      if (data.jobId === jobId) {
+        appendLines([{ seq: data.seq, type: 'stderr', line: data.line, timestamp: data.timestamp }]);
       }
     });
 
@@ -186,9 +223,31 @@ export function useJobLogs(jobId: string | null) {
     };
   }, [jobId]);
 
+  // Ask the server to cancel this job (removes it if queued, stops it if running)
+  const cancelJob = (): Promise<{ outcome?: string; error?: string }> => {
+    return new Promise(resolve => {
+      if (!socket || !jobId) {
+        resolve({ error: 'Not connected' });
+        return;
+      }
+      const token = getAdminToken();
+      if (!token) {
+        resolve({ error: 'Admin token required' });
+        return;
+      }
+      socket.emit('cancel', jobId, token, (result: { outcome?: string; error?: string }) => {
+        if (result.error === 'Admin token required') {
+          forgetAdminToken();
+        }
+        resolve(result);
+      });
+    });
+  };
+
   return {
     socket,
     logs,
+    cancelJob,
     clearLogs: () => setLogs([]),
   };
-} 
\ No newline at end of file
+}
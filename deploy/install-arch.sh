@@ -900,7 +900,7 @@ if [ "\$INSTALL_NGROK" = "true" ] && [ -n "\${BACKEND_URL:-}" ]; then
 else
     echo -e "  1. Add webhook URL to GitHub: http://your-server-ip:5000/webhook"
 fi
-echo -e "  2. Comment '@gemini [your request]' on any GitHub PR"
+echo -e "  2. Comment '@gemini implement [your request]' on any GitHub PR"
 echo -e "  3. Monitor dashboard for job progress"
 EOL
 
@@ -1041,4 +1041,4 @@ fi
 echo -e "• Monitor dashboard for job progress and logs"
 echo
 echo -e "${GREEN}🎉 Installation complete!${NC}"
-echo -e "${BLUE}💡 Usage: Comment '@gemini [your request]' on any GitHub PR${NC}" 
\ No newline at end of file
+echo -e "${BLUE}💡 Usage: Comment '@gemini implement [your request]' on any GitHub PR${NC}" 
\ No newline at end of file
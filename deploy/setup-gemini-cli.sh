@@ -193,7 +193,7 @@ print_success "🎉 Gemini CLI setup complete!"
 echo
 echo -e "${BLUE}💡 Usage Tips:${NC}"
 echo "• Test locally: GEMINI_API_KEY=\"your_key\" gemini --version"
-echo "• Use in projects: Comment '@gemini [request]' on GitHub PRs"
+echo "• Use in projects: Comment '@gemini implement [request]' on GitHub PRs"
 echo "• The service will use the key from /etc/gemini-coding-factory/environment"
 echo
 echo -e "${BLUE}🔧 Verification:${NC}"
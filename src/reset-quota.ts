@@ -1,16 +1,32 @@
 #!/usr/bin/env node
 
-// Simple script to reset quota protection
-import { GeminiOrchestrator } from './services/orchestrator';
+// Resets quota protection for the running factory, through the shared state in Redis
+import { config } from 'dotenv';
+config();
 
-console.log('🔧 Resetting quota protection...');
+async function main(): Promise<void> {
+  // Imported after .env is loaded - the queue reads its Redis settings on import
+  const { closeQueue } = await import('./services/queue');
+  const { getQuotaState, resetQuota } = await import('./services/quota-state');
 
-// Reset the quota protection
-GeminiOrchestrator.resetQuotaProtection();
+  try {
+    console.log('🔧 Resetting quota protection...');
 
-// Show current status
-const status = GeminiOrchestrator.getQuotaStatus();
-console.log('📊 Current status:', status);
+    const cleared = await resetQuota(process.env.USER || 'reset-quota');
+    if (cleared) {
+      console.log('📊 Cleared pause:', cleared);
+    } else {
+      console.log('📊 The queue was not paused for quota; resumed it anyway');
+    }
 
-console.log('✅ Quota protection has been reset!');
-process.exit(0); 
\ No newline at end of file
+    console.log('📊 Current status:', await getQuotaState() ?? 'not paused');
+    console.log('✅ Quota protection has been reset!');
+  } finally {
+    await closeQueue();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Failed to reset quota protection:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
-import { createWebhookServer } from './services/webhook-server';
+import { createWebhookServer, parseWebhookSecrets } from './services/webhook-server';
+import { githubAuth } from './services/github-auth';
+import { accessPolicy } from './services/access-policy';
+import { configuredProviders } from './services/providers';
+import { configuredApiKeys } from './services/api-key-pool';
 import { Logger } from './utils/logger';
 import { config } from 'dotenv';
 // Import the worker to start it
@@ -19,8 +23,26 @@ async function main() {
 
   try {
     // Validate required environment variables
-    const requiredEnvVars = ['GEMINI_API_KEY', 'GITHUB_TOKEN'];
-    const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+    const missingVars: string[] = [];
+
+    // One key in GEMINI_API_KEY, or a pool of them in GEMINI_API_KEYS
+    const apiKeys = configuredApiKeys();
+    if (apiKeys.length === 0) {
+      missingVars.push('GEMINI_API_KEY (or GEMINI_API_KEYS)');
+    }
+
+    // GitHub access comes from either a personal token or a GitHub App; GitLab and Gitea from their tokens
+    const providers = configuredProviders();
+    if (providers.length === 0) {
+      missingVars.push('GITHUB_TOKEN (or GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY), GITLAB_TOKEN or GITEA_TOKEN');
+    }
+
+    // Self-hosted tokens are only sent to their configured instance, never to a host from a payload
+    for (const [token, url] of [['GITLAB_TOKEN', 'GITLAB_URL'], ['GITEA_TOKEN', 'GITEA_URL']]) {
+      if (process.env[token] && !process.env[url]) {
+        missingVars.push(`${url} (required with ${token})`);
+      }
+    }
     
     if (missingVars.length > 0) {
       throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
@@ -30,13 +52,17 @@ async function main() {
     const workspaceRoot = process.env.WORKSPACE_ROOT || '/home/wes/coding-factory';
     const port = parseInt(process.env.PORT || process.env.WEBHOOK_PORT || '5000');
     const webhookPath = process.env.WEBHOOK_PATH || '/webhook';
-    const webhookSecret = process.env.WEBHOOK_SECRET;
+    const webhookSecrets = parseWebhookSecrets(process.env.WEBHOOK_SECRET);
     
     logger.info('Configuration loaded', {
       workspaceRoot,
       port,
       webhookPath,
-      hasSecret: !!webhookSecret,
+      webhookSecrets: webhookSecrets.length,
+      providers,
+      geminiApiKeys: apiKeys.length,
+      githubAuth: githubAuth.isApp() ? 'app' : 'token',
+      accessPolicy: accessPolicy.describe(),
       nodeEnv: process.env.NODE_ENV || 'development'
     });
 
@@ -44,7 +70,7 @@ async function main() {
     const server = createWebhookServer(workspaceRoot, {
       port,
       path: webhookPath,
-      secret: webhookSecret,
+      secrets: webhookSecrets,
       cors: {
         origin: (process.env.CORS_ORIGINS || '*').split(',')
       }
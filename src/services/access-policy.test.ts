@@ -0,0 +1,137 @@
+import { AccessPolicy } from './access-policy';
+import { providerFor } from './providers';
+import { JobPriority, ParsedCommand, RepositoryPermission, TriggerRepository } from '../types';
+
+jest.mock('./providers', () => {
+  const provider = { name: 'github', getPermissionLevel: jest.fn(), isTeamMember: jest.fn() };
+  return { providerFor: () => provider };
+});
+
+// Only the default model is needed - keep the Gemini runner and its queue imports out
+jest.mock('./orchestrator', () => ({ DEFAULT_GEMINI_MODEL: 'gemini-2.5-pro' }));
+
+const repository: TriggerRepository = {
+  fullName: 'acme/widgets',
+  owner: 'acme',
+  name: 'widgets',
+  cloneUrl: 'https://github.com/acme/widgets.git',
+  private: false
+};
+
+function implement(priority?: JobPriority): ParsedCommand {
+  return { name: 'implement', args: 'cap the backoff', options: { push: true, priority } };
+}
+
+describe('access policy priority lanes', () => {
+  const getPermissionLevel = providerFor(repository).getPermissionLevel as jest.Mock;
+  const policy = () => new AccessPolicy({
+    repositories: { tiers: { 'acme/*': 'normal' } },
+    rules: [{ permission: 'write' }]
+  });
+
+  function withRole(role: RepositoryPermission | null) {
+    getPermissionLevel.mockResolvedValue(role);
+  }
+
+  afterEach(() => {
+    getPermissionLevel.mockReset();
+  });
+
+  it('queues in the lane the policy grants when no priority is asked for', async () => {
+    withRole('write');
+
+    await expect(policy().authorize('octocat', repository, implement())).resolves.toEqual({ allowed: true, priority: 'normal' });
+  });
+
+  it('lets anyone lower their lane', async () => {
+    withRole('write');
+
+    await expect(policy().authorize('octocat', repository, implement('low'))).resolves.toEqual({ allowed: true, priority: 'low' });
+  });
+
+  it('keeps requesters without maintain access in the granted lane', async () => {
+    withRole('write');
+
+    await expect(policy().authorize('octocat', repository, implement('high'))).resolves.toEqual({ allowed: true, priority: 'normal' });
+  });
+
+  it.each(['maintain', 'admin'] as const)('lets a requester with %s access raise their lane', async role => {
+    withRole(role);
+
+    await expect(policy().authorize('octocat', repository, implement('high'))).resolves.toEqual({ allowed: true, priority: 'high' });
+  });
+
+  it('grants the highest lane of the tier and the matching rules', async () => {
+    withRole('maintain');
+    const tiered = new AccessPolicy({
+      repositories: { tiers: { 'acme/widgets': 'low' } },
+      rules: [{ permission: 'write' }, { permission: 'maintain', priority: 'high' }]
+    });
+
+    await expect(tiered.authorize('octocat', repository, implement())).resolves.toEqual({ allowed: true, priority: 'high' });
+  });
+});
+
+describe('access policy lookups', () => {
+  const getPermissionLevel = providerFor(repository).getPermissionLevel as jest.Mock;
+  const writers = () => new AccessPolicy({ rules: [{ permission: 'write' }] });
+
+  afterEach(() => {
+    getPermissionLevel.mockReset();
+  });
+
+  it('caches the answer of a lookup', async () => {
+    getPermissionLevel.mockResolvedValue('write');
+    const policy = writers();
+
+    await policy.authorize('octocat', repository, implement());
+    await policy.authorize('octocat', repository, implement());
+
+    expect(getPermissionLevel).toHaveBeenCalledTimes(1);
+  });
+
+  it('denies on a failed lookup without caching the failure', async () => {
+    getPermissionLevel.mockRejectedValueOnce(new Error('API rate limit exceeded')).mockResolvedValue('write');
+    const policy = writers();
+
+    await expect(policy.authorize('octocat', repository, implement())).resolves.toMatchObject({ allowed: false });
+    await expect(policy.authorize('octocat', repository, implement())).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('keeps the cache bounded', async () => {
+    getPermissionLevel.mockResolvedValue('write');
+    const policy = writers();
+
+    for (let i = 0; i < 1100; i++) {
+      await policy.authorize(`user-${i}`, repository, implement());
+    }
+
+    expect((policy as unknown as { lookups: Map<string, unknown> }).lookups.size).toBeLessThanOrEqual(1000);
+  });
+});
+
+describe('access policy user rules', () => {
+  const gitlabRepository: TriggerRepository = { ...repository, provider: 'gitlab', cloneUrl: 'https://gitlab.example/acme/widgets.git' };
+
+  afterEach(() => {
+    delete process.env.AUTHORIZED_USERS;
+  });
+
+  it('applies user rules on GitHub only unless they name another provider', async () => {
+    const policy = new AccessPolicy({ rules: [{ users: ['octocat'] }, { users: ['alice'], provider: 'gitlab' }] });
+
+    await expect(policy.authorize('octocat', repository, implement())).resolves.toMatchObject({ allowed: true });
+    await expect(policy.authorize('octocat', gitlabRepository, implement())).resolves.toMatchObject({ allowed: false });
+    await expect(policy.authorize('alice', gitlabRepository, implement())).resolves.toMatchObject({ allowed: true });
+    await expect(policy.authorize('alice', repository, implement())).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('reads provider-qualified logins from AUTHORIZED_USERS', async () => {
+    process.env.AUTHORIZED_USERS = 'octocat, gitlab:alice';
+    const policy = new AccessPolicy();
+
+    expect(policy.describe()).toBe('AUTHORIZED_USERS (octocat, gitlab:alice)');
+    await expect(policy.authorize('alice', gitlabRepository, implement())).resolves.toMatchObject({ allowed: true });
+    await expect(policy.authorize('octocat', gitlabRepository, implement())).resolves.toMatchObject({ allowed: false });
+  });
+});
@@ -0,0 +1,329 @@
+import { readFileSync } from 'fs';
+import { providerFor } from './providers';
+import { CommandParser } from './command-parser';
+import { DEFAULT_GEMINI_MODEL } from './orchestrator';
+import { AccessDecision, AccessPolicyConfig, AccessRule, JobPriority, ParsedCommand, ProviderName, RepositoryPermission, TriggerRepository } from '../types';
+import { Logger } from '../utils/logger';
+
+// Team membership and repository roles rarely change; avoid a GitHub round trip on every comment
+const LOOKUP_TTL_MS = 5 * 60 * 1000;
+// Cached lookups kept at most, one per user, repository or team and role
+const MAX_LOOKUPS = 1000;
+const PROVIDERS: ProviderName[] = ['github', 'gitlab', 'gitea'];
+const PERMISSIONS: RepositoryPermission[] = ['read', 'triage', 'write', 'maintain', 'admin'];
+const PRIORITIES: JobPriority[] = ['low', 'normal', 'high'];
+
+/**
+ * Decides who may run which commands and models on which repositories.
+ *
+ * The policy is read from the JSON file at ACCESS_POLICY_PATH. Without one, the users
+ * listed in AUTHORIZED_USERS may run anything, as before. A request is allowed when the
+ * repository is enabled and at least one rule that applies to the requester grants both
+ * the command and the model it would run with. Rules naming users or teams only apply
+ * on their provider (GitHub unless the rule says otherwise), since the same login can
+ * belong to different people on different hosts.
+ *
+ * Admitted jobs are queued in the highest lane given by the repository's tier or by
+ * the rules that admitted them. --priority may lower that lane; only the repository's
+ * maintainers and admins may raise it.
+ */
+export class AccessPolicy {
+  private logger: Logger;
+  private commandParser: CommandParser;
+  private policy?: AccessPolicyConfig;
+  private lookups = new Map<string, { expiresAt: number; result: Promise<boolean> }>();
+
+  constructor(policy?: AccessPolicyConfig) {
+    this.policy = policy;
+    this.logger = new Logger('AccessPolicy');
+    this.commandParser = new CommandParser();
+  }
+
+  /**
+   * Where the policy comes from, for startup logging. Throws if the policy file is invalid.
+   */
+  describe(): string {
+    const policy = this.getPolicy();
+    return process.env.ACCESS_POLICY_PATH
+      ? `${process.env.ACCESS_POLICY_PATH} (${policy.rules.length} rules)`
+      : `AUTHORIZED_USERS (${policy.rules.flatMap(rule => rule.users!.map(user => qualifiedLogin(rule, user))).join(', ')})`;
+  }
+
+  /**
+   * Checks whether the user may run the command on the repository
+   */
+  async authorize(user: string, repository: TriggerRepository, command: ParsedCommand): Promise<AccessDecision> {
+    const policy = this.getPolicy();
+    const fullName = repository.fullName;
+
+    const { allow, deny } = policy.repositories ?? {};
+    if ((deny && matchesAny(deny, fullName)) || (allow && !matchesAny(allow, fullName))) {
+      return this.deny(user, command, `Gemini isn't enabled for ${fullName}.`);
+    }
+
+    const rules: AccessRule[] = [];
+    for (const rule of policy.rules) {
+      if ((!rule.repositories || matchesAny(rule.repositories, fullName)) && await this.appliesTo(rule, user, repository)) {
+        rules.push(rule);
+      }
+    }
+
+    if (rules.length === 0) {
+      return this.deny(user, command, `@${user} isn't authorized to run Gemini commands on ${fullName}.`);
+    }
+
+    const commandRules = rules.filter(rule => grants(rule.commands, command.name));
+    if (commandRules.length === 0) {
+      const commands = rules.flatMap(rule => rule.commands ?? []);
+      return this.deny(
+        user,
+        command,
+        `@${user} isn't allowed to run \`${command.name}\` on ${fullName}.` +
+        (commands.length > 0 ? ` Commands available to you: ${formatList(commands)}.` : '')
+      );
+    }
+
+    // Control commands don't run Gemini, so there is no model to check
+    if (!this.commandParser.isJobCommand(command)) {
+      return { allowed: true };
+    }
+
+    const model = command.options.model || DEFAULT_GEMINI_MODEL;
+    const modelRules = commandRules.filter(rule => grants(rule.models, model));
+    if (modelRules.length === 0) {
+      const models = commandRules.flatMap(rule => rule.models ?? []).filter(name => !name.includes('*'));
+      return this.deny(
+        user,
+        command,
+        `@${user} isn't allowed to use \`${model}\` on ${fullName}.` +
+        (models.length > 0 ? ` Try again with \`--model ${models[0]}\` (available to you: ${formatList(models)}).` : '')
+      );
+    }
+
+    const granted = this.priorityFor(policy, fullName, modelRules) ?? 'normal';
+    return { allowed: true, priority: await this.requestedPriority(user, repository, command, granted) };
+  }
+
+  /**
+   * Formats the reply posted when a request is denied
+   */
+  formatDenial(decision: AccessDecision): string {
+    return `🔒 **Gemini Agent**: Sorry, I can't run this request.
+
+${decision.reason ?? 'You are not authorized to use Gemini here.'}
+
+If you think you should have access, please ask a maintainer to update the factory's access policy.
+
+---
+*Gemini Coding Factory - Multi-Repository AI Development*`;
+  }
+
+  /**
+   * The highest lane the repository's tier and the admitting rules give, if any give one
+   */
+  private priorityFor(policy: AccessPolicyConfig, fullName: string, rules: AccessRule[]): JobPriority | undefined {
+    const tier = Object.entries(policy.repositories?.tiers ?? {}).find(([pattern]) => matchesAny([pattern], fullName));
+    const lanes = [tier?.[1], ...rules.map(rule => rule.priority)].filter((lane): lane is JobPriority => Boolean(lane));
+    if (lanes.length === 0) {
+      return undefined;
+    }
+
+    return lanes.reduce((highest, lane) => PRIORITIES.indexOf(lane) > PRIORITIES.indexOf(highest) ? lane : highest);
+  }
+
+  /**
+   * The lane a --priority flag gets: anything up to the granted lane, and above it only for maintainers and admins
+   */
+  private async requestedPriority(
+    user: string,
+    repository: TriggerRepository,
+    command: ParsedCommand,
+    granted: JobPriority
+  ): Promise<JobPriority> {
+    const requested = command.options.priority;
+    if (!requested || PRIORITIES.indexOf(requested) <= PRIORITIES.indexOf(granted)) {
+      return requested ?? granted;
+    }
+
+    if (await this.hasPermission(user, repository, 'maintain')) {
+      return requested;
+    }
+
+    this.logger.info('Requested priority capped at the granted lane', {
+      user,
+      repository: repository.fullName,
+      requested,
+      granted
+    });
+    return granted;
+  }
+
+  private deny(user: string, command: ParsedCommand, reason: string): AccessDecision {
+    this.logger.debug('Request denied by access policy', { user, command: command.name, reason });
+    return { allowed: false, reason };
+  }
+
+  /**
+   * Whether the rule's user, team and permission conditions all hold, cheapest first
+   */
+  private async appliesTo(rule: AccessRule, user: string, repository: TriggerRepository): Promise<boolean> {
+    if ((rule.users || rule.teams) && (rule.provider ?? 'github') !== (repository.provider ?? 'github')) {
+      return false;
+    }
+
+    if (rule.users && !rule.users.some(login => login.toLowerCase() === user.toLowerCase())) {
+      return false;
+    }
+
+    if (rule.permission && !await this.hasPermission(user, repository, rule.permission)) {
+      return false;
+    }
+
+    if (rule.teams) {
+      for (const team of rule.teams) {
+        if (await this.isTeamMember(user, repository, team)) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    return true;
+  }
+
+  private hasPermission(user: string, repository: TriggerRepository, required: RepositoryPermission): Promise<boolean> {
+    const provider = providerFor(repository);
+    return this.lookup(`permission:${provider.name}:${repository.fullName}:${user}:${required}`, async () => {
+      const role = await provider.getPermissionLevel(repository, user);
+      return role !== null && PERMISSIONS.indexOf(role) >= PERMISSIONS.indexOf(required);
+    });
+  }
+
+  private isTeamMember(user: string, repository: TriggerRepository, team: string): Promise<boolean> {
+    const provider = providerFor(repository);
+    return this.lookup(`team:${provider.name}:${team}:${user}`, () =>
+      provider.isTeamMember(repository, team, user)
+    );
+  }
+
+  /**
+   * Caches a lookup's answer. A lookup that fails counts as not granted this time but isn't
+   * cached, so a transient API error doesn't lock anyone out for the whole TTL.
+   */
+  private lookup(key: string, resolve: () => Promise<boolean>): Promise<boolean> {
+    const normalizedKey = key.toLowerCase();
+    const now = Date.now();
+    const cached = this.lookups.get(normalizedKey);
+    if (cached && cached.expiresAt > now) {
+      return cached.result;
+    }
+
+    this.pruneLookups(now);
+    const result: Promise<boolean> = resolve().catch(error => {
+      if (this.lookups.get(normalizedKey)?.result === result) {
+        this.lookups.delete(normalizedKey);
+      }
+      this.logger.warn('Access lookup failed, treating it as not granted', {
+        lookup: key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    });
+    this.lookups.set(normalizedKey, { expiresAt: now + LOOKUP_TTL_MS, result });
+    return result;
+  }
+
+  // Drops expired lookups, then the oldest ones while the cache is full
+  private pruneLookups(now: number): void {
+    for (const [key, entry] of this.lookups) {
+      if (entry.expiresAt <= now) {
+        this.lookups.delete(key);
+      }
+    }
+    for (const key of this.lookups.keys()) {
+      if (this.lookups.size < MAX_LOOKUPS) break;
+      this.lookups.delete(key);
+    }
+  }
+
+  /**
+   * Loads the policy on first use - the entry point loads .env after modules are imported
+   */
+  private getPolicy(): AccessPolicyConfig {
+    if (!this.policy) {
+      this.policy = loadPolicy();
+    }
+    return this.policy;
+  }
+}
+
+function loadPolicy(): AccessPolicyConfig {
+  const policyPath = process.env.ACCESS_POLICY_PATH;
+  if (!policyPath) {
+    return { rules: authorizedUserRules(process.env.AUTHORIZED_USERS) };
+  }
+
+  const policy = JSON.parse(readFileSync(policyPath, 'utf-8')) as AccessPolicyConfig;
+  if (!Array.isArray(policy.rules)) {
+    throw new Error(`Access policy ${policyPath} must contain a "rules" array`);
+  }
+
+  for (const rule of policy.rules) {
+    if (rule.permission && !PERMISSIONS.includes(rule.permission)) {
+      throw new Error(`Access policy ${policyPath} has unknown permission "${rule.permission}" (expected ${PERMISSIONS.join(', ')})`);
+    }
+    if (rule.provider && !PROVIDERS.includes(rule.provider)) {
+      throw new Error(`Access policy ${policyPath} has unknown provider "${rule.provider}" (expected ${PROVIDERS.join(', ')})`);
+    }
+    if (rule.priority && !PRIORITIES.includes(rule.priority)) {
+      throw new Error(`Access policy ${policyPath} has unknown priority "${rule.priority}" (expected ${PRIORITIES.join(', ')})`);
+    }
+  }
+
+  for (const [pattern, tier] of Object.entries(policy.repositories?.tiers ?? {})) {
+    if (!PRIORITIES.includes(tier)) {
+      throw new Error(`Access policy ${policyPath} has unknown priority "${tier}" for ${pattern} (expected ${PRIORITIES.join(', ')})`);
+    }
+  }
+
+  return policy;
+}
+
+// AUTHORIZED_USERS lists GitHub logins; users on other hosts are written "gitlab:login" or "gitea:login"
+function authorizedUserRules(value: string | undefined): AccessRule[] {
+  const byProvider = new Map<ProviderName, string[]>();
+  for (const entry of (value || '').split(',').map(user => user.trim()).filter(Boolean)) {
+    const [prefix, login] = entry.split(':', 2);
+    const qualified = login !== undefined && PROVIDERS.includes(prefix.toLowerCase() as ProviderName);
+    const provider = qualified ? prefix.toLowerCase() as ProviderName : 'github';
+    byProvider.set(provider, [...(byProvider.get(provider) ?? []), qualified ? login : entry]);
+  }
+
+  if (byProvider.size === 0) {
+    return [{ users: ['wjorgensen'] }];
+  }
+  return [...byProvider].map(([provider, users]) => provider === 'github' ? { users } : { users, provider });
+}
+
+function qualifiedLogin(rule: AccessRule, user: string): string {
+  return rule.provider && rule.provider !== 'github' ? `${rule.provider}:${user}` : user;
+}
+
+// Omitted grants mean everything
+function grants(patterns: string[] | undefined, value: string): boolean {
+  return !patterns || matchesAny(patterns, value);
+}
+
+// Case-insensitive match where "*" stands for any run of characters, e.g. "acme/*" or "gemini-2.5-*"
+function matchesAny(patterns: string[], value: string): boolean {
+  return patterns.some(pattern => {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i').test(value);
+  });
+}
+
+function formatList(values: string[]): string {
+  return [...new Set(values)].map(value => `\`${value}\``).join(', ');
+}
+
+export const accessPolicy = new AccessPolicy();
@@ -0,0 +1,48 @@
+import type { Request, Response } from 'express';
+import { isAdminToken, requireAdminToken } from './admin-auth';
+
+describe('admin token', () => {
+  afterEach(() => {
+    delete process.env.ADMIN_TOKEN;
+  });
+
+  function call(authorization?: string) {
+    const req = { headers: { authorization }, method: 'POST', path: '/jobs/1/cancel' } as unknown as Request;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis(), setHeader: jest.fn() };
+    const next = jest.fn();
+    requireAdminToken(req, res as unknown as Response, next);
+    return { status: res.status.mock.calls[0]?.[0], next };
+  }
+
+  it('matches only the configured token', () => {
+    process.env.ADMIN_TOKEN = 's3cret';
+
+    expect(isAdminToken('s3cret')).toBe(true);
+    expect(isAdminToken('s3cret ')).toBe(false);
+    expect(isAdminToken('')).toBe(false);
+    expect(isAdminToken(undefined)).toBe(false);
+  });
+
+  it('never matches while no token is configured', () => {
+    delete process.env.ADMIN_TOKEN;
+
+    expect(isAdminToken('')).toBe(false);
+    expect(call('Bearer anything')).toEqual({ status: 503, next: expect.any(Function) });
+  });
+
+  it('lets a request with the bearer token through', () => {
+    process.env.ADMIN_TOKEN = 's3cret';
+
+    const { status, next } = call('Bearer s3cret');
+    expect(status).toBeUndefined();
+    expect(next).toHaveBeenCalled();
+  });
+
+  it.each([undefined, 's3cret', 'Bearer wrong', 'Basic czNjcmV0'])('rejects authorization %j', authorization => {
+    process.env.ADMIN_TOKEN = 's3cret';
+
+    const { status, next } = call(authorization);
+    expect(status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
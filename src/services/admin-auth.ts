@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import type { RequestHandler } from 'express';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('AdminAuth');
+
+/**
+ * Whether the token is the shared ADMIN_TOKEN. Always false while no token is configured,
+ * so admin operations stay closed until one is set.
+ */
+export function isAdminToken(token: unknown): boolean {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected || typeof token !== 'string') {
+    return false;
+  }
+
+  // Compare digests so neither the length nor the content leaks through timing
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(expected));
+}
+
+/**
+ * Express middleware for admin endpoints: requires `Authorization: Bearer <ADMIN_TOKEN>`
+ */
+export const requireAdminToken: RequestHandler = (req, res, next) => {
+  if (!process.env.ADMIN_TOKEN) {
+    return res.status(503).json({ error: 'Admin endpoints are disabled - set ADMIN_TOKEN to enable them' });
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!isAdminToken(match?.[1].trim())) {
+    logger.warn('Rejected admin request', { method: req.method, path: req.path, ip: req.ip });
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+
+  next();
+};
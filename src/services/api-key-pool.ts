@@ -0,0 +1,139 @@
+import { redis } from './queue';
+import { apiKeyId, BudgetUsage, getBudgetUsage } from './quota-budget';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('ApiKeyPool');
+
+const cooldownKey = (keyId: string) => `gemini-key-cooldown:${keyId}`;
+
+export interface ApiKey {
+  id: string; // from apiKeyId - the key itself never leaves the process
+  key: string;
+}
+
+// A key's health and today's budget usage, for /status
+export interface ApiKeyStatus extends BudgetUsage {
+  healthy: boolean;
+  coolingDownUntil?: string;
+  cooldownReason?: string;
+}
+
+interface Cooldown {
+  reason: string;
+  until: string;
+}
+
+/**
+ * Keys from GEMINI_API_KEYS (comma-separated), or the single GEMINI_API_KEY
+ */
+export function configuredApiKeys(): ApiKey[] {
+  const keys = (process.env.GEMINI_API_KEYS || process.env.GEMINI_API_KEY || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+
+  return [...new Set(keys)].map(key => ({ id: apiKeyId(key), key }));
+}
+
+/**
+ * Picks the key for a Gemini run: the preferred key while it is healthy, otherwise the healthy
+ * key with the fewest requests today. Returns null when every key is cooling down.
+ */
+export async function pickApiKey(options: { preferred?: string; exclude?: string[] } = {}): Promise<ApiKey | null> {
+  const ranked = await rankApiKeys();
+  const candidates = ranked.filter(({ key, cooldown }) => !cooldown && !options.exclude?.includes(key.id));
+
+  return (candidates.find(({ key }) => key.id === options.preferred) ?? candidates[0])?.key ?? null;
+}
+
+/**
+ * Key ids in the order budgets should be reserved from: healthy keys with the fewest requests first
+ */
+export async function apiKeyIdsByPreference(): Promise<string[]> {
+  const ranked = await rankApiKeys();
+  return [...ranked.filter(({ cooldown }) => !cooldown), ...ranked.filter(({ cooldown }) => cooldown)].map(({ key }) => key.id);
+}
+
+/**
+ * Takes a key out of rotation after it ran out of quota, for GEMINI_KEY_COOLDOWN_MINUTES (default 60)
+ */
+export async function coolDownApiKey(keyId: string, reason: string): Promise<Date> {
+  const cooldownMs = parseInt(process.env.GEMINI_KEY_COOLDOWN_MINUTES || '60') * 60 * 1000;
+  const until = new Date(Date.now() + cooldownMs);
+  const cooldown: Cooldown = { reason, until: until.toISOString() };
+
+  // The entry expires when the cooldown ends, putting the key back into rotation
+  await redis.set(cooldownKey(keyId), JSON.stringify(cooldown), 'PX', cooldownMs);
+  logger.warn('Gemini API key cooling down', { keyId, reason, until: cooldown.until });
+  return until;
+}
+
+/**
+ * Puts every key back into rotation, including keys no longer configured here. Returns how many were cooling down.
+ */
+export async function clearApiKeyCooldowns(): Promise<number> {
+  let cleared = 0;
+  const stream = redis.scanStream({ match: cooldownKey('*'), count: 100 });
+  for await (const keys of stream as AsyncIterable<string[]>) {
+    if (keys.length > 0) {
+      cleared += await redis.del(...keys);
+    }
+  }
+  return cleared;
+}
+
+/**
+ * When the first cooling key becomes usable again - the time to resume a queue paused because all were exhausted
+ */
+export async function nextApiKeyRecovery(): Promise<Date> {
+  const cooldowns = await getCooldowns(configuredApiKeys());
+  const times = [...cooldowns.values()].map(cooldown => Date.parse(cooldown.until));
+  return new Date(times.length > 0 ? Math.min(...times) : Date.now());
+}
+
+/**
+ * Health and today's usage of every key in the pool
+ */
+export async function getApiKeyStatus(): Promise<ApiKeyStatus[]> {
+  const keys = configuredApiKeys();
+  const [cooldowns, usage] = await Promise.all([
+    getCooldowns(keys),
+    Promise.all(keys.map(key => getBudgetUsage(key.id)))
+  ]);
+
+  return keys.map((key, index) => {
+    const cooldown = cooldowns.get(key.id);
+    return {
+      ...usage[index],
+      healthy: !cooldown,
+      coolingDownUntil: cooldown?.until,
+      cooldownReason: cooldown?.reason
+    };
+  });
+}
+
+async function rankApiKeys(): Promise<{ key: ApiKey; cooldown?: Cooldown }[]> {
+  const keys = configuredApiKeys();
+  const [cooldowns, usage] = await Promise.all([
+    getCooldowns(keys),
+    Promise.all(keys.map(key => getBudgetUsage(key.id)))
+  ]);
+
+  return keys
+    .map((key, index) => ({ key, cooldown: cooldowns.get(key.id), requests: usage[index].requests }))
+    .sort((a, b) => a.requests - b.requests)
+    .map(({ key, cooldown }) => ({ key, cooldown }));
+}
+
+async function getCooldowns(keys: ApiKey[]): Promise<Map<string, Cooldown>> {
+  const cooldowns = new Map<string, Cooldown>();
+  if (keys.length === 0) return cooldowns;
+
+  const stored = await redis.mget(...keys.map(key => cooldownKey(key.id)));
+  stored.forEach((value, index) => {
+    if (value) {
+      cooldowns.set(keys[index].id, JSON.parse(value) as Cooldown);
+    }
+  });
+  return cooldowns;
+}
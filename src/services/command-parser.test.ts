@@ -0,0 +1,93 @@
+import { CommandParser } from './command-parser';
+import { CommandParseError } from '../types';
+
+describe('CommandParser', () => {
+  const parser = new CommandParser();
+
+  function parseError(body: string, context?: { onIssue?: boolean }): CommandParseError {
+    try {
+      parser.parse(body, context);
+    } catch (error) {
+      if (error instanceof CommandParseError) return error;
+      throw error;
+    }
+    throw new Error(`Expected "${body}" to be rejected`);
+  }
+
+  describe('hasTrigger', () => {
+    it.each([
+      '@gemini implement it',
+      'Looks good.\n@gemini review',
+      'Could you take this, @gemini?',
+      '@GEMINI status',
+      'over to @gemini.'
+    ])('accepts %j', body => {
+      expect(parser.hasTrigger(body)).toBe(true);
+    });
+
+    it.each([
+      '@gemini-bot implement it',
+      'ping @gemini_team',
+      'cc @gemini.team',
+      'mail foo@gemini.com for access',
+      'no mention at all'
+    ])('ignores %j', body => {
+      expect(parser.hasTrigger(body)).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('splits the command, flags and arguments', () => {
+      expect(parser.parse('@gemini implement --model gemini-2.5-flash --priority HIGH --timeout=45 --no-push add a cache'))
+        .toEqual({
+          name: 'implement',
+          args: 'add a cache',
+          options: { model: 'gemini-2.5-flash', priority: 'high', timeoutMinutes: 45, push: false }
+        });
+    });
+
+    it('reads flags only from the command line and keeps later lines as free text', () => {
+      const command = parser.parse('Please:\n@gemini review security\n\n--model is mentioned here\nand here');
+
+      expect(command).toEqual({
+        name: 'review',
+        args: 'security\n--model is mentioned here\nand here',
+        options: { push: true }
+      });
+    });
+
+    it('starts at the standalone mention, not an address before it', () => {
+      expect(parser.parse('from foo@gemini.com: @gemini explain the build').name).toBe('explain');
+    });
+
+    it('requires a description for implement except on issues', () => {
+      expect(parseError('@gemini implement').message).toBe('`implement` requires a description');
+      expect(parser.parse('@gemini implement', { onIssue: true }).args).toBe('');
+    });
+
+    it.each([
+      ['@gemini', 'No command given'],
+      ['@gemini add a login page', 'Unknown command `add`'],
+      ['@gemini implement --model gpt-4 x', 'Invalid model `gpt-4`'],
+      ['@gemini implement --priority urgent x', 'Invalid priority `urgent` (expected high, normal, low)'],
+      ['@gemini implement --timeout 0 x', 'Invalid timeout `0` (expected whole minutes)'],
+      ['@gemini implement --model', 'Flag `--model` requires a value'],
+      ['@gemini review --force', 'Unknown flag `--force`']
+    ])('rejects %j', (body, message) => {
+      expect(parseError(body).message).toBe(message);
+    });
+  });
+
+  describe('formatHelp', () => {
+    it('explains that free text needs a command now', () => {
+      const help = parser.formatHelp(parseError('@gemini add a login page'));
+
+      expect(help).toContain('Unknown command `add`');
+      expect(help).toContain('`@gemini implement <request>`');
+    });
+
+    it('leaves the note out for mistakes in a known command', () => {
+      expect(parser.formatHelp(parseError('@gemini review --force'))).not.toContain('no longer start a run');
+    });
+  });
+});
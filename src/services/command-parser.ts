@@ -0,0 +1,211 @@
+import {
+  CommandParseError,
+  GeminiCommandName,
+  GeminiCommandOptions,
+  GeminiJobKind,
+  JobPriority,
+  ParsedCommand
+} from '../types';
+
+interface CommandDefinition {
+  usage: string;
+  description: string;
+  requiresArgs: boolean;
+}
+
+const COMMANDS: Record<GeminiCommandName, CommandDefinition> = {
+  implement: {
+    usage: '@gemini implement <feature description>',
+    description: 'Implement a feature on this branch',
+    requiresArgs: true
+  },
+  'fix-tests': {
+    usage: '@gemini fix-tests [extra context]',
+    description: 'Run the test suite and fix failing tests',
+    requiresArgs: false
+  },
+  review: {
+    usage: '@gemini review [focus areas]',
+    description: 'Review the changes on this branch without modifying files',
+    requiresArgs: false
+  },
+  explain: {
+    usage: '@gemini explain [question]',
+    description: 'Explain the code or the changes on this branch',
+    requiresArgs: false
+  },
+  cancel: {
+    usage: '@gemini cancel',
+    description: 'Cancel queued or running jobs for this thread',
+    requiresArgs: false
+  },
+  retry: {
+    usage: '@gemini retry',
+    description: 'Re-run the most recent job for this pull request',
+    requiresArgs: false
+  },
+  status: {
+    usage: '@gemini status',
+    description: 'Show the current queue status',
+    requiresArgs: false
+  }
+};
+
+const JOB_KINDS: GeminiJobKind[] = ['implement', 'fix-tests', 'review', 'explain'];
+const PRIORITIES: JobPriority[] = ['high', 'normal', 'low'];
+const MODEL_PATTERN = /^gemini-[a-z0-9.-]+$/i;
+// A standalone mention - not @gemini-bot, @gemini.team or someone@gemini.com
+const TRIGGER_PATTERN = /(?:^|\s)@gemini(?![\w-]|\.\w)/i;
+
+/**
+ * Parses `@gemini <command> [--flags] <args>` comments into typed commands
+ */
+export class CommandParser {
+  /**
+   * Whether the comment mentions @gemini at all
+   */
+  hasTrigger(commentBody: string): boolean {
+    return TRIGGER_PATTERN.test(commentBody);
+  }
+
+  /**
+   * Parses a comment body, throwing CommandParseError for unknown or malformed commands.
+   * On plain issues the issue itself describes the work, so arguments become optional.
+   */
+  parse(commentBody: string, context: { onIssue?: boolean } = {}): ParsedCommand {
+    const mention = TRIGGER_PATTERN.exec(commentBody);
+    if (!mention) {
+      throw new CommandParseError('Comment does not contain @gemini trigger');
+    }
+
+    // Flags are only read from the command line; following lines are free text
+    const [commandLine, ...rest] = commentBody.slice(mention.index + mention[0].length).trim().split('\n');
+    const tokens = commandLine.trim().split(/\s+/).filter(Boolean);
+    const name = (tokens.shift() || '').toLowerCase();
+
+    if (!name) {
+      throw new CommandParseError('No command given');
+    }
+
+    if (!this.isCommandName(name)) {
+      throw new CommandParseError(`Unknown command \`${name}\``, name);
+    }
+
+    const options: GeminiCommandOptions = { push: true };
+    const words: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (!token.startsWith('--')) {
+        words.push(token);
+        continue;
+      }
+
+      const [flag, inlineValue] = token.slice(2).split(/=(.*)/s, 2);
+      const takeValue = (): string => {
+        const value = inlineValue ?? tokens[++i];
+        if (!value || value.startsWith('--')) {
+          throw new CommandParseError(`Flag \`--${flag}\` requires a value`, name);
+        }
+        return value;
+      };
+
+      switch (flag) {
+        case 'model': {
+          const model = takeValue();
+          if (!MODEL_PATTERN.test(model)) {
+            throw new CommandParseError(`Invalid model \`${model}\``, name);
+          }
+          options.model = model;
+          break;
+        }
+        case 'priority': {
+          const priority = takeValue().toLowerCase() as JobPriority;
+          if (!PRIORITIES.includes(priority)) {
+            throw new CommandParseError(
+              `Invalid priority \`${priority}\` (expected ${PRIORITIES.join(', ')})`,
+              name
+            );
+          }
+          options.priority = priority;
+          break;
+        }
+        case 'timeout': {
+          const value = takeValue();
+          const minutes = Number(value);
+          if (!Number.isInteger(minutes) || minutes < 1) {
+            throw new CommandParseError(`Invalid timeout \`${value}\` (expected whole minutes)`, name);
+          }
+          options.timeoutMinutes = minutes;
+          break;
+        }
+        case 'no-push':
+          options.push = false;
+          break;
+        case 'push':
+          options.push = true;
+          break;
+        default:
+          throw new CommandParseError(`Unknown flag \`--${flag}\``, name);
+      }
+    }
+
+    const args = [words.join(' '), ...rest]
+      .join('\n')
+      .replace(/\n\s*\n/g, '\n') // normalize line breaks
+      .trim();
+
+    if (COMMANDS[name].requiresArgs && !args && !context.onIssue) {
+      throw new CommandParseError(`\`${name}\` requires a description`, name);
+    }
+
+    return { name, args, options };
+  }
+
+  /**
+   * Whether the command runs Gemini (as opposed to controlling existing jobs)
+   */
+  isJobCommand(command: ParsedCommand): command is ParsedCommand & { name: GeminiJobKind } {
+    return (JOB_KINDS as string[]).includes(command.name);
+  }
+
+  /**
+   * Whether the job kind is expected to change code (and so needs publishing)
+   */
+  modifiesCode(kind: GeminiJobKind): boolean {
+    return kind === 'implement' || kind === 'fix-tests';
+  }
+
+  /**
+   * Formats the help reply posted for unknown or malformed commands
+   */
+  formatHelp(error?: CommandParseError): string {
+    const commandList = Object.values(COMMANDS)
+      .map(command => `- \`${command.usage}\` - ${command.description}`)
+      .join('\n');
+
+    // Before commands existed, any text after @gemini was run as a feature request
+    const unknownCommand = error && (!error.command || !this.isCommandName(error.command));
+    const migrationNote = unknownCommand
+      ? '\nℹ️ Plain `@gemini <request>` comments no longer start a run - start the request with a command, e.g. `@gemini implement <request>`.\n'
+      : '';
+
+    return `🤖 **Gemini Coding Factory**
+${error ? `\n⚠️ ${error.message}\n` : ''}${migrationNote}
+**Commands:**
+${commandList}
+
+**Options** (on the command line):
+- \`--model <name>\` - Gemini model to use (e.g. \`gemini-2.5-flash\`)
+- \`--no-push\` - Keep changes local instead of pushing them
+- \`--priority <high|normal|low>\` - Queue priority (raising it above your lane needs maintain access)
+- \`--timeout <minutes>\` - Stop the run if it takes longer than this
+
+No Gemini run was started for this comment.`;
+  }
+
+  private isCommandName(name: string): name is GeminiCommandName {
+    return Object.prototype.hasOwnProperty.call(COMMANDS, name);
+  }
+}
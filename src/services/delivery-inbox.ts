@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { redis } from './queue';
+import { ProviderName } from '../types';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('DeliveryInbox');
+
+const INBOX_KEY = 'webhook-inbox';
+const INBOX_LIMIT = parseInt(process.env.WEBHOOK_INBOX_LIMIT || '500');
+const INBOX_TTL_SECONDS = 7 * 24 * 3600;
+// Comment payloads are a few dozen KB; anything much bigger isn't worth keeping whole
+const MAX_STORED_BODY_BYTES = 512 * 1024;
+
+const entryKey = (id: string) => `${INBOX_KEY}:${id}`;
+const bodyKey = (id: string) => `${INBOX_KEY}:${id}:body`;
+
+// Headers needed to tell a misconfigured hook from a forged request, and to replay a delivery.
+// X-Gitlab-Token is the webhook secret itself, so it is never recorded.
+const RECORDED_HEADERS = [
+  'content-type',
+  'user-agent',
+  'x-github-event',
+  'x-github-delivery',
+  'x-github-hook-id',
+  'x-github-hook-installation-target-id',
+  'x-hub-signature-256',
+  'x-gitlab-event',
+  'x-gitlab-event-uuid',
+  'x-gitlab-instance',
+  'x-gitea-event',
+  'x-gitea-delivery',
+  'x-gitea-signature'
+];
+
+export type DeliveryVerification = 'verified' | 'unsigned' | 'rejected';
+
+// What the pipeline did with a delivery
+export type DeliveryStatus =
+  | 'received'   // still being processed
+  | 'rejected'   // failed signature verification or payload validation
+  | 'ignored'    // not an event or comment the factory acts on
+  | 'duplicate'  // already handled under the same delivery id or comment
+  | 'denied'     // refused by trigger admission
+  | 'handled'    // a control command or re-run request was answered
+  | 'queued'     // a job was queued
+  | 'failed';    // processing threw
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['received', 'rejected', 'ignored', 'duplicate', 'denied', 'handled', 'queued', 'failed'];
+
+export interface InboxDelivery {
+  id: string;
+  provider?: ProviderName;
+  deliveryId?: string;
+  event?: string;
+  action?: string;
+  repository?: string;
+  sender?: string;
+  receivedAt: string;
+  remoteAddress?: string;
+  headers: Record<string, string>;
+  bodyBytes: number;
+  bodySha256: string;
+  bodyTruncated: boolean;
+  verification?: DeliveryVerification;
+  verificationDetail?: string;
+  status: DeliveryStatus;
+  decision?: string;
+  jobId?: string;
+  replayOf?: string; // inbox id of the delivery this one replays
+}
+
+export interface DeliveryQuery {
+  status?: DeliveryStatus;
+  event?: string;
+  limit: number;
+  offset: number;
+}
+
+// Pushes the id and drops entries that fall off the end of the inbox in one step
+const PUSH_SCRIPT = `
+redis.call('LPUSH', KEYS[1], ARGV[1])
+local dropped = redis.call('LRANGE', KEYS[1], tonumber(ARGV[2]), -1)
+redis.call('LTRIM', KEYS[1], 0, tonumber(ARGV[2]) - 1)
+for _, id in ipairs(dropped) do
+  redis.call('DEL', KEYS[1] .. ':' .. id, KEYS[1] .. ':' .. id .. ':body')
+end
+return #dropped
+`;
+
+/**
+ * Stores an incoming delivery as 'received' and returns its inbox id.
+ * Never throws - the inbox must not stand between GitHub and the pipeline.
+ */
+export async function recordDelivery(
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer | undefined,
+  options: { provider?: ProviderName; event?: string; deliveryId?: string; remoteAddress?: string; replayOf?: string } = {}
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const body = rawBody ?? Buffer.alloc(0);
+
+  const recorded: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = headers[name];
+    if (value !== undefined) {
+      recorded[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  const entry: InboxDelivery = {
+    id,
+    provider: options.provider,
+    deliveryId: options.deliveryId,
+    event: options.event,
+    ...describePayload(body),
+    receivedAt: new Date().toISOString(),
+    remoteAddress: options.remoteAddress,
+    headers: recorded,
+    bodyBytes: body.length,
+    bodySha256: crypto.createHash('sha256').update(body).digest('hex'),
+    bodyTruncated: body.length > MAX_STORED_BODY_BYTES,
+    status: 'received',
+    replayOf: options.replayOf
+  };
+
+  try {
+    await redis.multi()
+      .set(entryKey(id), JSON.stringify(entry), 'EX', INBOX_TTL_SECONDS)
+      .set(bodyKey(id), body.subarray(0, MAX_STORED_BODY_BYTES), 'EX', INBOX_TTL_SECONDS)
+      .exec();
+    await redis.eval(PUSH_SCRIPT, 1, INBOX_KEY, id, INBOX_LIMIT);
+  } catch (error) {
+    logger.error('Failed to record delivery', {
+      delivery: entry.deliveryId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return id;
+}
+
+/**
+ * Records how the pipeline handled a delivery. Never throws.
+ */
+export async function updateDelivery(
+  id: string,
+  update: Pick<InboxDelivery, 'status'> & Partial<Pick<InboxDelivery, 'verification' | 'verificationDetail' | 'decision' | 'jobId'>>
+): Promise<void> {
+  try {
+    const stored = await redis.get(entryKey(id));
+    if (!stored) return;
+
+    const entry: InboxDelivery = { ...JSON.parse(stored), ...update };
+    await redis.set(entryKey(id), JSON.stringify(entry), 'KEEPTTL');
+  } catch (error) {
+    logger.error('Failed to update delivery', {
+      id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Lists stored deliveries, newest first
+ */
+export async function listDeliveries(query: DeliveryQuery): Promise<InboxDelivery[]> {
+  const ids = await redis.lrange(INBOX_KEY, 0, -1);
+  if (ids.length === 0) return [];
+
+  const entries = (await redis.mget(...ids.map(entryKey)))
+    .filter((entry): entry is string => entry !== null)
+    .map(entry => JSON.parse(entry) as InboxDelivery)
+    .filter(entry => (!query.status || entry.status === query.status) && (!query.event || entry.event === query.event));
+
+  return entries.slice(query.offset, query.offset + query.limit);
+}
+
+/**
+ * Returns a stored delivery with its raw body, or null if it has left the inbox
+ */
+export async function getDelivery(id: string): Promise<{ delivery: InboxDelivery; body: Buffer } | null> {
+  const [entry, body] = await Promise.all([redis.get(entryKey(id)), redis.getBuffer(bodyKey(id))]);
+  if (!entry) return null;
+
+  return { delivery: JSON.parse(entry), body: body ?? Buffer.alloc(0) };
+}
+
+// Pulls the fields worth filtering on out of the payload, if it is JSON at all.
+// GitHub and Gitea share a shape; GitLab names things differently.
+function describePayload(body: Buffer): Pick<InboxDelivery, 'action' | 'repository' | 'sender'> {
+  try {
+    const payload = JSON.parse(body.toString('utf-8'));
+    const action = payload?.action ?? payload?.object_attributes?.action;
+    return {
+      action: typeof action === 'string' ? action : undefined,
+      repository: payload?.repository?.full_name ?? payload?.project?.path_with_namespace,
+      sender: payload?.sender?.login ?? payload?.user?.username
+    };
+  } catch {
+    return {};
+  }
+}
@@ -1,7 +1,12 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import { queueEvents, getQueueStats } from './queue';
+import { getJobStore, isJobStoreReady } from './job-store';
+import { appendJobLogLine, readJobLogs, JobLogStream } from './job-logs';
+import { cancelJob, CancelResult } from './job-cancellation';
+import { isAdminToken } from './admin-auth';
 import { Logger } from '../utils/logger';
+import { redactSecrets } from '../utils/redact';
 
 // Logger for events
 const logger = new Logger('SocketEvents');
@@ -30,10 +35,39 @@ export function initializeSocketIO(httpServer: HTTPServer): SocketIOServer {
     // Send current queue stats on connection
     sendQueueStats(socket);
 
-    // Handle client requesting to tail a specific job
-    socket.on('tail', (jobId: string) => {
+    // Handle client requesting to tail a specific job, replaying lines after `afterSeq`
+    socket.on('tail', async (jobId: string, afterSeq: number = 0) => {
+      // Join first so nothing written during the replay is missed; clients dedupe by seq
       socket.join(`job:${jobId}`);
-      logger.debug('Client joined job room', { socketId: socket.id, jobId });
+      logger.debug('Client joined job room', { socketId: socket.id, jobId, afterSeq });
+
+      try {
+        await replayJobLogs(socket, jobId, Number(afterSeq) || 0);
+      } catch (error) {
+        logger.error('Failed to replay job logs', {
+          socketId: socket.id,
+          jobId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    // Handle client requesting to cancel a job; only the admin token may do that
+    socket.on('cancel', async (jobId: string, token: unknown, ack?: (result: CancelResult | { error: string }) => void) => {
+      if (!isAdminToken(token)) {
+        logger.warn('Rejected cancel request without a valid admin token', { socketId: socket.id, jobId });
+        ack?.({ error: process.env.ADMIN_TOKEN ? 'Admin token required' : 'Cancelling is disabled - set ADMIN_TOKEN to enable it' });
+        return;
+      }
+
+      try {
+        const result = await cancelJob(jobId, 'dashboard');
+        ack?.(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error('Failed to cancel job', { socketId: socket.id, jobId, error: errorMessage });
+        ack?.({ error: errorMessage });
+      }
     });
 
     // Handle client disconnection
@@ -178,34 +212,83 @@ async function broadcastQueueStats(): Promise<void> {
   }
 }
 
+/**
+ * Send stored log lines to a client that joined a job late, in batches
+ */
+async function replayJobLogs(socket: any, jobId: string, afterSeq: number): Promise<void> {
+  const batchSize = 500;
+  let from = afterSeq + 1;
+
+  while (true) {
+    const entries = await readJobLogs(jobId, from, undefined, batchSize);
+    const done = entries.length < batchSize;
+
+    socket.emit('job:backlog', { jobId, entries, done });
+    if (done) break;
+
+    from = entries[entries.length - 1].seq + 1;
+  }
+
+  logger.debug('Replayed job logs', { socketId: socket.id, jobId, from: afterSeq + 1 });
+}
+
 /**
  * Emit stdout line for a specific job
  */
 export function emitJobStdout(jobId: string, line: string): void {
-  if (!io) return;
-  
-  io.to(`job:${jobId}`).emit('job:stdout', { 
-    jobId, 
-    line,
-    timestamp: new Date().toISOString()
-  });
-  
-  logger.debug('Emitted stdout line', { jobId, lineLength: line.length });
+  publishJobLine(jobId, 'stdout', line);
 }
 
 /**
  * Emit stderr line for a specific job
  */
 export function emitJobStderr(jobId: string, line: string): void {
+  publishJobLine(jobId, 'stderr', line);
+}
+
+/**
+ * Store a log line with its sequence number, then broadcast it to the job room
+ */
+async function publishJobLine(jobId: string, type: JobLogStream, rawLine: string): Promise<void> {
+  const timestamp = new Date().toISOString();
+  // Redacted before it is stored anywhere - tools Gemini runs can print whatever is in their environment
+  const line = redactSecrets(rawLine);
+  appendJobLog(jobId, line);
+
+  let seq: number | null = null;
+  try {
+    seq = await appendJobLogLine(jobId, type, line, timestamp);
+  } catch (error) {
+    logger.error('Failed to store job log line', {
+      jobId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
   if (!io) return;
-  
-  io.to(`job:${jobId}`).emit('job:stderr', { 
-    jobId, 
+
+  io.to(`job:${jobId}`).emit(`job:${type}`, {
+    jobId,
+    seq,
     line,
-    timestamp: new Date().toISOString()
+    timestamp
+  });
+
+  logger.debug(`Emitted ${type} line`, { jobId, seq, lineLength: line.length });
+}
+
+/**
+ * Persist a log line to the job history so it survives BullMQ retention
+ */
+function appendJobLog(jobId: string, line: string): void {
+  if (!isJobStoreReady()) return;
+
+  getJobStore().appendLog(jobId, line).catch(error => {
+    logger.error('Failed to persist job log line', {
+      jobId,
+      error: error instanceof Error ? error.message : String(error)
+    });
   });
-  
-  logger.debug('Emitted stderr line', { jobId, lineLength: line.length });
 }
 
 /**
@@ -223,6 +306,23 @@ export function emitJobStarted(jobId: string, metadata: any): void {
   logger.info('Emitted job started event', { jobId, repository: metadata.repository });
 }
 
+/**
+ * Emit job cancelled event to all clients
+ */
+export function emitJobCancelled(jobId: string, requestedBy: string): void {
+  if (!io) return;
+
+  io.emit('job:cancelled', {
+    jobId,
+    status: 'cancelled',
+    requestedBy,
+    timestamp: new Date().toISOString()
+  });
+
+  broadcastQueueStats();
+  logger.info('Emitted job cancelled event', { jobId, requestedBy });
+}
+
 /**
  * Emit quota exhaustion warning to all clients
  */
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import type { Octokit } from '@octokit/rest';
+import { Logger } from '../utils/logger';
+import { registerSecret } from '../utils/redact';
+
+// Installation tokens last an hour; refresh early so a long clone or push doesn't outlive its token
+const TOKEN_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+// GitHub rejects app JWTs that live longer than 10 minutes
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+export interface GitHubCredentials {
+  appId?: string;
+  privateKey?: string;
+  personalToken?: string;
+}
+
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+/**
+ * Resolves the credentials used for GitHub API calls and git remotes.
+ *
+ * With GITHUB_APP_ID and a private key configured, each repository gets a short-lived
+ * installation token from the app installation that delivered its webhooks, and commits
+ * are attributed to the app's bot account. Otherwise the personal token in GITHUB_TOKEN
+ * is used everywhere.
+ */
+export class GitHubAuth {
+  private logger: Logger;
+  private credentials?: GitHubCredentials;
+  private installations = new Map<string, number>(); // repository full name -> installation id
+  private tokens = new Map<number, Promise<InstallationToken>>();
+  private botAuthor: Promise<CommitAuthor> | null = null;
+
+  constructor(credentials?: GitHubCredentials) {
+    this.credentials = credentials;
+    this.logger = new Logger('GitHubAuth');
+  }
+
+  /**
+   * Whether requests are made as a GitHub App rather than with a personal token
+   */
+  isApp(): boolean {
+    const { appId, privateKey } = this.getCredentials();
+    return Boolean(appId && privateKey);
+  }
+
+  /**
+   * Whether any GitHub credentials are configured
+   */
+  isConfigured(): boolean {
+    return this.isApp() || Boolean(this.getCredentials().personalToken);
+  }
+
+  /**
+   * Records the installation a repository's webhooks come from, saving a lookup later
+   */
+  rememberInstallation(fullName: string, installationId: number): void {
+    this.installations.set(fullName.toLowerCase(), installationId);
+  }
+
+  /**
+   * Returns a token that can act on the repository, minting a fresh installation token when needed
+   */
+  async getToken(owner: string, repo: string): Promise<string | undefined> {
+    if (!this.isApp()) {
+      return this.getCredentials().personalToken;
+    }
+
+    const installationId = await this.getInstallationId(owner, repo);
+    const cached = this.tokens.get(installationId);
+    if (cached) {
+      const current = await cached.catch(() => null);
+      if (current && current.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+        return current.token;
+      }
+    }
+
+    // Share one request between concurrent callers; forget it if it fails so the next call retries
+    const minting = this.mintToken(installationId);
+    this.tokens.set(installationId, minting);
+    minting.catch(() => {
+      if (this.tokens.get(installationId) === minting) {
+        this.tokens.delete(installationId);
+      }
+    });
+
+    return (await minting).token;
+  }
+
+  /**
+   * The app's bot account as a commit author, or undefined when using a personal token
+   */
+  async getCommitAuthor(): Promise<CommitAuthor | undefined> {
+    if (!this.isApp()) {
+      return undefined;
+    }
+
+    if (!this.botAuthor) {
+      this.botAuthor = this.lookupBotAuthor();
+      this.botAuthor.catch(() => {
+        this.botAuthor = null;
+      });
+    }
+
+    return this.botAuthor;
+  }
+
+  /**
+   * Reads credentials on first use - the entry point loads .env after modules are imported
+   */
+  private getCredentials(): GitHubCredentials {
+    if (!this.credentials) {
+      this.credentials = {
+        appId: process.env.GITHUB_APP_ID,
+        privateKey: loadPrivateKey(),
+        personalToken: process.env.GITHUB_TOKEN
+      };
+    }
+    return this.credentials;
+  }
+
+  private async getInstallationId(owner: string, repo: string): Promise<number> {
+    const key = `${owner}/${repo}`.toLowerCase();
+    const known = this.installations.get(key);
+    if (known) {
+      return known;
+    }
+
+    const octokit = await this.createAppOctokit();
+    const { data } = await octokit.rest.apps.getRepoInstallation({ owner, repo });
+    this.installations.set(key, data.id);
+    return data.id;
+  }
+
+  private async mintToken(installationId: number): Promise<InstallationToken> {
+    const octokit = await this.createAppOctokit();
+    const { data } = await octokit.rest.apps.createInstallationAccessToken({ installation_id: installationId });
+
+    registerSecret(data.token);
+    this.logger.info('Minted installation token', { installationId, expiresAt: data.expires_at });
+    return { token: data.token, expiresAt: new Date(data.expires_at).getTime() };
+  }
+
+  private async lookupBotAuthor(): Promise<CommitAuthor> {
+    const octokit = await this.createAppOctokit();
+    const { data: app } = await octokit.rest.apps.getAuthenticated();
+    const login = `${app!.slug}[bot]`;
+    const { data: user } = await octokit.rest.users.getByUsername({ username: login });
+
+    // The noreply address links the commits to the bot account on GitHub
+    return { name: login, email: `${user.id}+${login}@users.noreply.github.com` };
+  }
+
+  /**
+   * Octokit authenticated as the app itself - only good for app endpoints
+   */
+  private async createAppOctokit(): Promise<Octokit> {
+    const { Octokit } = await import('@octokit/rest');
+    return new Octokit({ auth: this.createJwt() });
+  }
+
+  private createJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    // Backdated a minute to allow for clock drift
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+      iat: now - 60,
+      exp: now + JWT_LIFETIME_SECONDS,
+      iss: this.getCredentials().appId
+    })}`;
+    const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(this.getCredentials().privateKey!, 'base64url');
+
+    return `${unsigned}.${signature}`;
+  }
+}
+
+/**
+ * Reads the app private key from GITHUB_APP_PRIVATE_KEY_PATH or GITHUB_APP_PRIVATE_KEY
+ */
+function loadPrivateKey(): string | undefined {
+  if (process.env.GITHUB_APP_PRIVATE_KEY_PATH) {
+    return readFileSync(process.env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf-8');
+  }
+
+  // Single-line env files carry the PEM with escaped newlines
+  return process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+}
+
+export const githubAuth = new GitHubAuth();
@@ -0,0 +1,363 @@
+import type { Octokit } from '@octokit/rest';
+import { githubAuth } from './github-auth';
+import { CheckRunUpdate, CommentReaction, RepositoryPermission } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Thin wrapper around Octokit for the GitHub calls made by the factory
+ */
+export class GitHubClient {
+  private logger: Logger;
+  private token?: string;
+  private octokits = new Map<string, { token: string | undefined; octokit: Octokit }>();
+
+  /**
+   * Without a token, each repository's credentials come from githubAuth (app installation or GITHUB_TOKEN)
+   */
+  constructor(token?: string) {
+    this.token = token;
+    this.logger = new Logger('GitHubClient');
+  }
+
+  /**
+   * Returns an Octokit instance for the repository, rebuilt whenever its token changes
+   */
+  private async getOctokit(owner: string, repo: string): Promise<Octokit> {
+    const token = this.token ?? await githubAuth.getToken(owner, repo);
+    const key = this.token ? '' : `${owner}/${repo}`.toLowerCase();
+
+    const cached = this.octokits.get(key);
+    if (cached && cached.token === token) {
+      return cached.octokit;
+    }
+
+    const { Octokit } = await import('@octokit/rest');
+    const octokit = new Octokit({ auth: token });
+    this.octokits.set(key, { token, octokit });
+    return octokit;
+  }
+
+  /**
+   * Posts a comment on an issue or pull request, returning the comment id
+   */
+  async createComment(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<number | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body
+      });
+      this.logger.info(`Posted comment to ${owner}/${repo}#${issueNumber}`);
+      return data.id;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to post comment to GitHub', { error: errorMessage });
+      return null;
+    }
+  }
+
+  /**
+   * Replies in the thread of a pull request review comment, returning the reply id
+   */
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<number | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.pulls.createReplyForReviewComment({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        comment_id: commentId,
+        body
+      });
+      this.logger.info(`Replied to review comment ${commentId} on ${owner}/${repo}#${pullNumber}`);
+      return data.id;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to reply to review comment', { error: errorMessage });
+      return null;
+    }
+  }
+
+  /**
+   * Replaces the body of an issue or pull request comment
+   */
+  async updateComment(
+    owner: string,
+    repo: string,
+    commentId: number,
+    body: string
+  ): Promise<boolean> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      await octokit.rest.issues.updateComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        body
+      });
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to update comment ${commentId} on ${owner}/${repo}`, { error: errorMessage });
+      return false;
+    }
+  }
+
+  /**
+   * Replaces the body of a pull request review comment
+   */
+  async updateReviewComment(
+    owner: string,
+    repo: string,
+    commentId: number,
+    body: string
+  ): Promise<boolean> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      await octokit.rest.pulls.updateReviewComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        body
+      });
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to update review comment ${commentId} on ${owner}/${repo}`, { error: errorMessage });
+      return false;
+    }
+  }
+
+  /**
+   * Reacts to an issue comment or, with `review`, a pull request review comment, returning the reaction id
+   */
+  async addReaction(
+    owner: string,
+    repo: string,
+    commentId: number,
+    content: CommentReaction,
+    review: boolean = false
+  ): Promise<number | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = review
+        ? await octokit.rest.reactions.createForPullRequestReviewComment({ owner, repo, comment_id: commentId, content })
+        : await octokit.rest.reactions.createForIssueComment({ owner, repo, comment_id: commentId, content });
+      return data.id;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to react to comment ${commentId} on ${owner}/${repo}`, { error: errorMessage });
+      return null;
+    }
+  }
+
+  /**
+   * Removes a reaction added with addReaction
+   */
+  async removeReaction(
+    owner: string,
+    repo: string,
+    commentId: number,
+    reactionId: number,
+    review: boolean = false
+  ): Promise<boolean> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      if (review) {
+        await octokit.rest.reactions.deleteForPullRequestComment({ owner, repo, comment_id: commentId, reaction_id: reactionId });
+      } else {
+        await octokit.rest.reactions.deleteForIssueComment({ owner, repo, comment_id: commentId, reaction_id: reactionId });
+      }
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to remove reaction ${reactionId} from comment ${commentId} on ${owner}/${repo}`, { error: errorMessage });
+      return false;
+    }
+  }
+
+  /**
+   * Creates a check run on a commit, returning its id
+   */
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    options: { name: string; headSha: string; externalId: string } & CheckRunUpdate
+  ): Promise<number | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.checks.create({
+        owner,
+        repo,
+        name: options.name,
+        head_sha: options.headSha,
+        external_id: options.externalId,
+        ...this.toCheckRunParams(options)
+      });
+      this.logger.info(`Created check run ${data.id} on ${owner}/${repo}@${options.headSha}`);
+      return data.id;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to create check run', { error: errorMessage });
+      return null;
+    }
+  }
+
+  /**
+   * Moves a check run to a new status, with output once it has some
+   */
+  async updateCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    update: CheckRunUpdate
+  ): Promise<boolean> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      await octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: checkRunId,
+        ...this.toCheckRunParams(update)
+      });
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to update check run ${checkRunId} on ${owner}/${repo}`, { error: errorMessage });
+      return false;
+    }
+  }
+
+  /**
+   * Maps a check run update onto the REST parameters
+   */
+  private toCheckRunParams(update: CheckRunUpdate) {
+    return {
+      status: update.status,
+      conclusion: update.conclusion,
+      details_url: update.detailsUrl,
+      actions: update.actions,
+      ...(update.status === 'completed' ? { completed_at: new Date().toISOString() } : {}),
+      ...(update.status === 'in_progress' ? { started_at: new Date().toISOString() } : {}),
+      // The API takes at most 50 annotations per request
+      output: update.output && {
+        ...update.output,
+        annotations: update.output.annotations?.slice(0, 50)
+      }
+    };
+  }
+
+  /**
+   * Opens a pull request, returning its number and URL
+   */
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: { title: string; head: string; base: string; body: string; draft?: boolean }
+  ): Promise<{ number: number; url: string } | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.pulls.create({
+        owner,
+        repo,
+        ...options
+      });
+      this.logger.info(`Opened pull request ${owner}/${repo}#${data.number}`, {
+        head: options.head,
+        base: options.base,
+        draft: options.draft
+      });
+      return { number: data.number, url: data.html_url };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to open pull request', { error: errorMessage });
+      return null;
+    }
+  }
+
+  /**
+   * Returns the user's role on the repository, or null if they have none. Throws when the role
+   * can't be read, so a failed lookup isn't mistaken for a user without access.
+   */
+  async getPermissionLevel(
+    owner: string,
+    repo: string,
+    username: string
+  ): Promise<RepositoryPermission | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+
+      // role_name distinguishes triage and maintain; custom roles fall back to the base permission
+      const roles: string[] = ['read', 'triage', 'write', 'maintain', 'admin'];
+      const role = roles.includes(data.role_name) ? data.role_name : data.permission;
+      return roles.includes(role) ? role as RepositoryPermission : null;
+    } catch (error) {
+      // GitHub answers 404 for users that don't exist
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the user is an active member of an organization team. Throws when membership can't be checked.
+   * The repository selects the credentials used for the lookup.
+   */
+  async isTeamMember(
+    owner: string,
+    repo: string,
+    org: string,
+    teamSlug: string,
+    username: string
+  ): Promise<boolean> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.teams.getMembershipForUserInOrg({ org, team_slug: teamSlug, username });
+      return data.state === 'active';
+    } catch (error) {
+      // GitHub answers 404 for non-members
+      if ((error as { status?: number }).status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the head and base refs of a pull request, and the repository its head lives on
+   */
+  async getPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<{ headRef: string; headSha: string; baseRef: string; headRepository: string | null } | null> {
+    try {
+      const octokit = await this.getOctokit(owner, repo);
+      const { data } = await octokit.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: pullNumber
+      });
+      return { headRef: data.head.ref, headSha: data.head.sha, baseRef: data.base.ref, headRepository: data.head.repo?.full_name ?? null };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to fetch pull request ${owner}/${repo}#${pullNumber}`, { error: errorMessage });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { geminiQueue, redis } from './queue';
+import { getJobStore, isJobStoreReady } from './job-store';
+import { setJobLogFinished } from './job-logs';
+import { RepositoryManager } from './repository-manager';
+import { reportJobStatus } from './job-status';
+import { reportJobCheck } from './job-checks';
+import { releaseBudget } from './quota-budget';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('JobCancellation');
+
+const CANCEL_CHANNEL = 'gemini-jobs:cancel';
+const CANCEL_KEY_TTL_SECONDS = 24 * 3600;
+
+const cancelKey = (jobId: string) => `job-cancel:${jobId}`;
+
+export type CancelOutcome =
+  | 'removed'    // was still queued and has been taken off the queue
+  | 'signalled'  // is running; the worker has been told to stop it
+  | 'finished'   // already completed or failed
+  | 'not_found';
+
+export interface CancelResult {
+  jobId: string;
+  outcome: CancelOutcome;
+}
+
+/**
+ * Cancels a job: queued jobs are removed, running jobs are signalled to the worker
+ */
+export async function cancelJob(jobId: string, requestedBy: string): Promise<CancelResult> {
+  const job = await geminiQueue.getJob(jobId);
+  if (!job) {
+    return { jobId, outcome: 'not_found' };
+  }
+
+  const state = await job.getState();
+
+  if (state === 'completed' || state === 'failed') {
+    return { jobId, outcome: 'finished' };
+  }
+
+  if (state === 'waiting' || state === 'prioritized' || state === 'delayed') {
+    const removed = await job.remove().then(() => true, (error: unknown) => {
+      // A worker locked the job between getState and remove - cancel it as a running job
+      logger.debug('Queued job became active during cancel', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    });
+
+    if (removed) {
+      // The worktree was created at enqueue time and no worker will run to remove it
+      await new RepositoryManager(process.env.WORKSPACE_ROOT || '').removeWorktree(job.data.repoPath);
+      // Gemini never ran, so the request reserved at admission goes back to the budgets
+      if (job.data.budget) {
+        await releaseBudget(job.data.budget).catch(error => {
+          logger.error('Failed to release budget reservation', {
+            jobId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+      }
+      await recordCancelled(jobId, requestedBy);
+      reportJobStatus(jobId, job.data.trigger, { state: 'cancelled', requestedBy });
+      // No worker will complete the job, so close its check run here or it stays queued
+      await reportJobCheck(job.data, { state: 'cancelled', requestedBy });
+
+      const { emitJobCancelled } = await import('./events');
+      emitJobCancelled(jobId, requestedBy);
+
+      logger.info('Removed queued job', { jobId, requestedBy });
+      return { jobId, outcome: 'removed' };
+    }
+  }
+
+  // The key covers a worker that picks the job up after the message is published
+  await redis.set(cancelKey(jobId), requestedBy, 'EX', CANCEL_KEY_TTL_SECONDS);
+  await redis.publish(CANCEL_CHANNEL, JSON.stringify({ jobId, requestedBy }));
+  logger.info('Signalled running job to cancel', { jobId, requestedBy });
+
+  return { jobId, outcome: 'signalled' };
+}
+
+/**
+ * Returns who cancelled the job, if it has been cancelled while running
+ */
+export async function getCancelRequest(jobId: string): Promise<string | null> {
+  return redis.get(cancelKey(jobId));
+}
+
+/**
+ * Subscribes to cancellation requests for running jobs
+ */
+export async function subscribeToCancellations(
+  handler: (jobId: string, requestedBy: string) => void
+): Promise<() => Promise<void>> {
+  const subscriber = redis.duplicate();
+  await subscriber.subscribe(CANCEL_CHANNEL);
+
+  subscriber.on('message', (channel, message) => {
+    if (channel !== CANCEL_CHANNEL) return;
+
+    try {
+      const { jobId, requestedBy } = JSON.parse(message);
+      handler(jobId, requestedBy);
+    } catch (error) {
+      logger.error('Invalid cancellation message', {
+        message,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  return async () => {
+    await subscriber.quit();
+  };
+}
+
+/**
+ * Records a cancelled job in the job history and closes its log
+ */
+export async function recordCancelled(jobId: string, requestedBy: string, durationMs: number = 0): Promise<void> {
+  await setJobLogFinished(jobId, true);
+
+  if (!isJobStoreReady()) return;
+
+  await getJobStore().markFinished(jobId, {
+    status: 'cancelled',
+    durationMs,
+    commits: [],
+    error: `Cancelled by ${requestedBy}`
+  });
+}
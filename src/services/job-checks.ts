@@ -0,0 +1,245 @@
+import path from 'path';
+import { redis, GeminiJobData, GeminiJobResult } from './queue';
+import { readJobLogs } from './job-logs';
+import { GitHubClient } from './github-client';
+import { CheckRunAnnotation, CheckRunUpdate } from '../types';
+import { Logger } from '../utils/logger';
+import { formatDuration } from '../utils/format';
+import { redactSecrets } from '../utils/redact';
+
+const logger = new Logger('JobChecks');
+const githubClient = new GitHubClient();
+
+const CHECK_RUN_TTL_SECONDS = 7 * 24 * 3600;
+const SUMMARY_LINES = 20;
+const MAX_ANNOTATIONS = 50;
+
+// Identifier of the "Re-run" button on completed checks, sent back in check_run webhooks
+export const RERUN_ACTION = 'rerun';
+
+const checkRunKey = (jobId: string) => `job-check-run:${jobId}`;
+
+// Check runs can only be created with GitHub App credentials, so they are opt-in.
+// Read on use: this module is imported before server.ts loads .env
+const checkRunsEnabled = () => process.env.GITHUB_CHECK_RUNS === 'true';
+const checkName = () => process.env.GITHUB_CHECK_NAME || 'Gemini';
+
+export type JobCheckUpdate =
+  | { state: 'queued' }
+  | { state: 'in_progress' }
+  | { state: 'completed'; result: GeminiJobResult }
+  | { state: 'failed'; error: string }
+  | { state: 'cancelled'; requestedBy: string }; // taken off the queue before a worker ran it
+
+// Updates for the same job are written one at a time, in the order they were reported
+const pendingUpdates = new Map<string, Promise<void>>();
+
+/**
+ * Creates or updates the job's check run on the pull request head commit.
+ * Jobs on plain issues have no commit to attach to and are skipped, as are jobs outside GitHub. Never throws.
+ */
+export function reportJobCheck(data: GeminiJobData, update: JobCheckUpdate): Promise<void> {
+  // Check runs are a GitHub feature; jobs recorded before providers existed are GitHub's
+  const onGitHub = (data.trigger.repository.provider ?? 'github') === 'github';
+  if (!checkRunsEnabled() || !onGitHub || data.trigger.target.type !== 'pull_request') {
+    return Promise.resolve();
+  }
+
+  const { jobId } = data;
+  const previous = pendingUpdates.get(jobId) ?? Promise.resolve();
+  const next = previous.then(() => writeCheckRun(data, update)).catch(error => {
+    logger.error('Failed to report job check run', {
+      jobId,
+      state: update.state,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+
+  pendingUpdates.set(jobId, next);
+  next.finally(() => {
+    if (pendingUpdates.get(jobId) === next) {
+      pendingUpdates.delete(jobId);
+    }
+  });
+
+  return next;
+}
+
+async function writeCheckRun(data: GeminiJobData, update: JobCheckUpdate): Promise<void> {
+  const { jobId, trigger } = data;
+  const { owner, name: repo } = trigger.repository;
+  const checkRun = await buildCheckRun(data, update);
+
+  const stored = await redis.get(checkRunKey(jobId));
+  if (stored && await githubClient.updateCheckRun(owner, repo, parseInt(stored, 10), checkRun)) {
+    return;
+  }
+
+  // Only pull request jobs get this far
+  const headSha = trigger.target.type === 'pull_request' ? trigger.target.headSha : '';
+  const id = await githubClient.createCheckRun(owner, repo, {
+    name: checkName(),
+    headSha,
+    externalId: jobId,
+    ...checkRun
+  });
+
+  if (id !== null) {
+    await redis.set(checkRunKey(jobId), String(id), 'EX', CHECK_RUN_TTL_SECONDS);
+  }
+}
+
+async function buildCheckRun(data: GeminiJobData, update: JobCheckUpdate): Promise<CheckRunUpdate> {
+  const detailsUrl = dashboardJobUrl(data.jobId);
+  const title = `@gemini ${data.command.name} by @${data.trigger.comment.author}`;
+  const rerun = [{ label: 'Re-run', description: 'Queue this Gemini job again', identifier: RERUN_ACTION }];
+
+  switch (update.state) {
+    case 'queued':
+      return { status: 'queued', detailsUrl, output: { title, summary: `Job \`${data.jobId}\` is waiting in the queue.` } };
+
+    case 'in_progress':
+      return { status: 'in_progress', detailsUrl, output: { title, summary: `Job \`${data.jobId}\` is running.` } };
+
+    case 'failed':
+      return {
+        status: 'completed',
+        conclusion: 'failure',
+        detailsUrl,
+        actions: rerun,
+        output: {
+          title: 'Job failed',
+          summary: formatSummary(data, update.error),
+          annotations: await collectAnnotations(data, update.error)
+        }
+      };
+
+    case 'cancelled':
+      return {
+        status: 'completed',
+        conclusion: 'cancelled',
+        detailsUrl,
+        actions: rerun,
+        output: { title: `Cancelled by ${update.requestedBy}`, summary: `Job \`${data.jobId}\` was cancelled before it started.` }
+      };
+
+    case 'completed': {
+      const { result } = update;
+      const conclusion = result.cancelledBy ? 'cancelled'
+        : result.timeout ? 'timed_out'
+        : result.success ? 'success'
+        : 'failure';
+      const outcome = result.cancelledBy ? `Cancelled by ${result.cancelledBy}`
+        : result.success ? `Completed in ${formatDuration(result.duration)}`
+        : `Failed after ${formatDuration(result.duration)}`;
+
+      return {
+        status: 'completed',
+        conclusion,
+        detailsUrl,
+        actions: rerun,
+        output: {
+          title: outcome,
+          summary: formatSummary(data, result.output, result),
+          annotations: await collectAnnotations(data, result.output)
+        }
+      };
+    }
+  }
+}
+
+function formatSummary(data: GeminiJobData, output: string, result?: GeminiJobResult): string {
+  const lines = [
+    `**Job:** \`${data.jobId}\``,
+    `**Command:** \`@gemini ${data.command.name}\` by @${data.trigger.comment.author}`
+  ];
+
+  if (result) {
+    lines.push(`**Commits:** ${result.commits.length > 0 ? result.commits.map(sha => sha.slice(0, 7)).join(', ') : 'none'}`);
+    if (result.pullRequestUrl) {
+      lines.push(`**Pull request:** ${result.pullRequestUrl}`);
+    }
+  }
+
+  const tail = redactSecrets(output.trim().split('\n').slice(-SUMMARY_LINES).join('\n')).replace(/```/g, "'''");
+  return `${lines.join('\n')}\n\n\`\`\`\n${tail}\n\`\`\``;
+}
+
+/**
+ * Turns lint, compiler and test failures in the job's log into annotations
+ */
+async function collectAnnotations(data: GeminiJobData, fallbackOutput: string): Promise<CheckRunAnnotation[]> {
+  const logLines = await readJobLogs(data.jobId)
+    .then(entries => entries.map(entry => entry.line))
+    .catch(() => [] as string[]);
+  const lines = logLines.length > 0 ? logLines : fallbackOutput.split('\n');
+
+  return extractAnnotations(lines, data.repoPath);
+}
+
+// path:line[:col] or path(line,col) followed by the message - tsc, eslint --format unix, gcc, pytest
+const LOCATION_PATTERN = /^\s*([^\s:()'"`]+\.[A-Za-z0-9]{1,6})(?::(\d+)(?::\d+)?|\((\d+),\d+\)):?\s*(?:-\s*)?(.+)$/;
+// ESLint's default formatter: a file path line, then "  line:col  level  message  rule"
+const STYLISH_FILE_PATTERN = /^(\/?[^\s:]+\.[A-Za-z0-9]{1,6})$/;
+const STYLISH_ISSUE_PATTERN = /^\s+(\d+):\d+\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/;
+
+function extractAnnotations(lines: string[], repoPath: string): CheckRunAnnotation[] {
+  const annotations = new Map<string, CheckRunAnnotation>();
+  let stylishFile: string | null = null;
+
+  const add = (file: string, line: number, level: CheckRunAnnotation['annotation_level'], message: string, title?: string) => {
+    const relative = toRepoPath(file, repoPath);
+    if (!relative || annotations.size >= MAX_ANNOTATIONS) return;
+
+    const key = `${relative}:${line}:${message}`;
+    if (!annotations.has(key)) {
+      annotations.set(key, { path: relative, start_line: line, end_line: line, annotation_level: level, message, title });
+    }
+  };
+
+  for (const raw of lines) {
+    const text = raw.replace(/\x1b\[[0-9;]*m/g, '');
+
+    const stylishIssue = stylishFile ? STYLISH_ISSUE_PATTERN.exec(text) : null;
+    if (stylishFile && stylishIssue) {
+      add(stylishFile, parseInt(stylishIssue[1], 10), stylishIssue[2] === 'error' ? 'failure' : 'warning', stylishIssue[3], stylishIssue[4]);
+      continue;
+    }
+
+    const stylishFileMatch = STYLISH_FILE_PATTERN.exec(text.trim());
+    if (stylishFileMatch) {
+      stylishFile = stylishFileMatch[1];
+      continue;
+    }
+    stylishFile = null;
+
+    const location = LOCATION_PATTERN.exec(text);
+    if (!location) continue;
+
+    // Plain file references are common in Gemini's prose - only keep reported problems
+    const message = location[4].trim();
+    const level = /\berror\b|fail|assert|exception/i.test(message) ? 'failure'
+      : /\bwarn(ing)?\b/i.test(message) ? 'warning'
+      : null;
+    if (level) {
+      add(location[1], parseInt(location[2] ?? location[3], 10), level, message);
+    }
+  }
+
+  return [...annotations.values()];
+}
+
+// Annotations must use paths relative to the repository root
+function toRepoPath(file: string, repoPath: string): string | null {
+  const relative = path.isAbsolute(file) ? path.relative(repoPath, file) : path.normalize(file);
+  if (relative.startsWith('..') || path.isAbsolute(relative) || relative.includes('node_modules')) {
+    return null;
+  }
+  return relative.split(path.sep).join('/');
+}
+
+function dashboardJobUrl(jobId: string): string | undefined {
+  // DASHBOARD_URL doubles as the socket CORS origin, which may be a wildcard
+  const dashboardUrl = process.env.DASHBOARD_URL;
+  return dashboardUrl?.startsWith('http') ? `${dashboardUrl.replace(/\/$/, '')}/job/${jobId}` : undefined;
+}
@@ -0,0 +1,161 @@
+import { redis } from './queue';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('JobLogs');
+
+// Logs stay replayable for a week after the last line; the job store keeps them after that
+const LOG_TTL_SECONDS = parseInt(process.env.JOB_LOG_TTL_SECONDS || String(7 * 24 * 3600));
+const MAX_LOG_LINES = parseInt(process.env.JOB_LOG_MAX_LINES || '50000');
+const FOLLOW_BLOCK_MS = 5000;
+
+export type JobLogStream = 'stdout' | 'stderr';
+
+// A single stored log line; seq starts at 1 and has no gaps within a job
+export interface JobLogEntry {
+  seq: number;
+  type: JobLogStream;
+  line: string;
+  timestamp: string;
+}
+
+const streamKey = (jobId: string) => `job-logs:${jobId}`;
+const seqKey = (jobId: string) => `job-logs:${jobId}:seq`;
+const finishedKey = (jobId: string) => `job-logs:${jobId}:finished`;
+
+// Allocates the next sequence number and appends the line in one step, so
+// concurrent writers can never insert out of order. Stream IDs are `0-<seq>`
+// which lets XRANGE address lines by sequence number directly.
+const APPEND_SCRIPT = `
+local seq = redis.call('INCR', KEYS[2])
+redis.call('XADD', KEYS[1], 'MAXLEN', '~', ARGV[4], '0-' .. seq, 'type', ARGV[1], 'line', ARGV[2], 'ts', ARGV[3])
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+return seq
+`;
+
+/**
+ * Appends a line to the job's log stream and returns its sequence number
+ */
+export async function appendJobLogLine(
+  jobId: string,
+  type: JobLogStream,
+  line: string,
+  timestamp: string = new Date().toISOString()
+): Promise<number> {
+  const seq = await redis.eval(
+    APPEND_SCRIPT,
+    2,
+    streamKey(jobId),
+    seqKey(jobId),
+    type,
+    line,
+    timestamp,
+    MAX_LOG_LINES,
+    LOG_TTL_SECONDS
+  );
+  return Number(seq);
+}
+
+/**
+ * Reads stored lines with from <= seq <= to (both optional)
+ */
+export async function readJobLogs(
+  jobId: string,
+  from: number = 1,
+  to?: number,
+  count?: number
+): Promise<JobLogEntry[]> {
+  const end = to !== undefined ? `0-${to}` : '+';
+  const entries = count !== undefined
+    ? await redis.xrange(streamKey(jobId), `0-${Math.max(from, 1)}`, end, 'COUNT', count)
+    : await redis.xrange(streamKey(jobId), `0-${Math.max(from, 1)}`, end);
+
+  return entries.map(([id, fields]) => toEntry(id, fields));
+}
+
+/**
+ * Whether any log lines are still stored for the job
+ */
+export async function hasJobLogs(jobId: string): Promise<boolean> {
+  return (await redis.exists(streamKey(jobId))) === 1;
+}
+
+/**
+ * Marks the job's log as finished (or reopened when a job is retried) so followers know when to stop
+ */
+export async function setJobLogFinished(jobId: string, finished: boolean): Promise<void> {
+  if (finished) {
+    await redis.set(finishedKey(jobId), '1', 'EX', LOG_TTL_SECONDS);
+  } else {
+    await redis.del(finishedKey(jobId));
+  }
+}
+
+/**
+ * Whether the job has finished writing its log
+ */
+export async function isJobLogFinished(jobId: string): Promise<boolean> {
+  return (await redis.exists(finishedKey(jobId))) === 1;
+}
+
+/**
+ * Yields lines from `from` onwards, then keeps blocking for new lines until the
+ * job finishes or the signal is aborted.
+ */
+export async function* followJobLogs(
+  jobId: string,
+  from: number = 1,
+  signal?: AbortSignal
+): AsyncGenerator<JobLogEntry> {
+  // Blocking reads need their own connection
+  const reader = redis.duplicate();
+  const stopReading = () => reader.disconnect();
+  signal?.addEventListener('abort', stopReading, { once: true });
+  let lastId = `0-${Math.max(from, 1) - 1}`;
+
+  try {
+    while (!signal?.aborted) {
+      let response: [string, [string, string[]][]][] | null;
+      try {
+        response = await reader.xread(
+          'COUNT', 500,
+          'BLOCK', FOLLOW_BLOCK_MS,
+          'STREAMS', streamKey(jobId), lastId
+        );
+      } catch (error) {
+        // Aborting disconnects the reader mid-block
+        if (signal?.aborted) return;
+        throw error;
+      }
+
+      const entries = response?.[0]?.[1] ?? [];
+      for (const [id, fields] of entries) {
+        lastId = id;
+        yield toEntry(id, fields);
+      }
+
+      // Only stop once the backlog is drained after the job finished
+      if (entries.length === 0 && await isJobLogFinished(jobId)) {
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', stopReading);
+    reader.disconnect();
+    logger.debug('Stopped following job logs', { jobId, lastId });
+  }
+}
+
+function toEntry(id: string, fields: string[]): JobLogEntry {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    values[fields[i]] = fields[i + 1];
+  }
+
+  return {
+    seq: parseInt(id.split('-')[1], 10),
+    type: values.type === 'stderr' ? 'stderr' : 'stdout',
+    line: values.line ?? '',
+    timestamp: values.ts
+  };
+}
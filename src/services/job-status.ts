@@ -0,0 +1,238 @@
+import { redis, GeminiJobResult } from './queue';
+import { providerFor } from './providers';
+import { CommentReaction, JobPriority, TriggerContext } from '../types';
+import { Logger } from '../utils/logger';
+import { formatDuration } from '../utils/format';
+import { redactSecrets } from '../utils/redact';
+
+const logger = new Logger('JobStatus');
+
+const STATUS_TTL_SECONDS = 7 * 24 * 3600;
+const SUMMARY_LINES = 10;
+const MAX_LISTED_COMMITS = 10;
+
+const commentKey = (jobId: string) => `job-status-comment:${jobId}`;
+const reactionKey = (jobId: string) => `job-status-reaction:${jobId}`;
+
+export type JobStatusUpdate =
+  | { state: 'queued'; position: number; priority?: JobPriority }
+  | { state: 'deferred'; until: string; reason?: 'quota' } // today's Gemini budget is used up, or every API key is out of quota
+  | { state: 'running'; attempt: number; maxAttempts: number }
+  | { state: 'retrying'; attempt: number; maxAttempts: number; error: string }
+  | { state: 'completed'; result: GeminiJobResult }
+  | { state: 'failed'; result?: GeminiJobResult; error: string; durationMs: number }
+  | { state: 'cancelled'; requestedBy: string };
+
+// 👀 once queued, 🚀 while running, then 👍 or 😕
+const REACTIONS: Record<JobStatusUpdate['state'], CommentReaction> = {
+  queued: 'eyes',
+  deferred: 'eyes',
+  running: 'rocket',
+  retrying: 'eyes',
+  completed: '+1',
+  failed: 'confused',
+  cancelled: 'confused'
+};
+
+interface StoredReaction {
+  id: number;
+  content: CommentReaction;
+}
+
+// The status comment for a job - review comment replies are edited through a different endpoint
+interface StatusComment {
+  id: number;
+  review: boolean;
+}
+
+// Updates for the same job are written one at a time, in the order they were reported
+const pendingUpdates = new Map<string, Promise<void>>();
+
+/**
+ * Posts the job's status comment on the triggering thread, or edits it in place if it exists,
+ * and swaps the reaction on the triggering comment to match.
+ * Never throws - the provider being unavailable must not affect the job.
+ */
+export function reportJobStatus(jobId: string, trigger: TriggerContext, update: JobStatusUpdate): Promise<void> {
+  const logFailure = (what: string) => (error: unknown) => {
+    logger.error(`Failed to update job status ${what}`, {
+      jobId,
+      state: update.state,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  };
+
+  const previous = pendingUpdates.get(jobId) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    await Promise.all([
+      writeStatusComment(jobId, trigger, update).catch(logFailure('comment')),
+      writeReaction(jobId, trigger, update).catch(logFailure('reaction'))
+    ]);
+  });
+
+  pendingUpdates.set(jobId, next);
+  next.finally(() => {
+    if (pendingUpdates.get(jobId) === next) {
+      pendingUpdates.delete(jobId);
+    }
+  });
+
+  return next;
+}
+
+async function writeStatusComment(jobId: string, trigger: TriggerContext, update: JobStatusUpdate): Promise<void> {
+  const { repository, target, reviewLocation } = trigger;
+  const provider = providerFor(repository);
+  // Output and errors are posted publicly on the thread
+  const body = redactSecrets(formatStatusComment(jobId, update));
+
+  const stored = await redis.get(commentKey(jobId));
+
+  // A worker can pick the job up before the enqueue acknowledgement is sent - don't step back to queued
+  if (stored && update.state === 'queued') return;
+
+  if (stored) {
+    const comment: StatusComment = JSON.parse(stored);
+    const updated = await provider.updateComment(repository, target, comment.id, body, comment.review);
+    if (updated) return;
+
+    // The comment was deleted or can't be edited - post a fresh one below
+    logger.warn('Status comment could not be edited, posting a new one', { jobId, commentId: comment.id });
+  }
+
+  // Diff comments get their status in the review thread, like any other reply
+  const review = Boolean(reviewLocation && target.type === 'pull_request');
+  const id = review
+    ? await provider.replyToReviewComment(repository, target.number, reviewLocation!, body)
+    : await provider.createComment(repository, target, body);
+
+  if (id !== null) {
+    const comment: StatusComment = { id, review };
+    await redis.set(commentKey(jobId), JSON.stringify(comment), 'EX', STATUS_TTL_SECONDS);
+  }
+}
+
+/**
+ * Replaces the job's reaction on the triggering comment - the new one is added before the old one goes
+ */
+async function writeReaction(jobId: string, trigger: TriggerContext, update: JobStatusUpdate): Promise<void> {
+  const provider = providerFor(trigger.repository);
+  const content = REACTIONS[update.state];
+
+  const stored = await redis.get(reactionKey(jobId));
+  const current: StoredReaction | null = stored ? JSON.parse(stored) : null;
+
+  // Same ordering rule as the comment: never step back to queued
+  if (current && update.state === 'queued') return;
+  if (current?.content === content) return;
+
+  const id = await provider.addReaction(trigger, content);
+  if (id === null) return;
+
+  if (current) {
+    await provider.removeReaction(trigger, current);
+  }
+
+  const reaction: StoredReaction = { id, content };
+  await redis.set(reactionKey(jobId), JSON.stringify(reaction), 'EX', STATUS_TTL_SECONDS);
+}
+
+/**
+ * Formats the status comment body for a job's current state
+ */
+function formatStatusComment(jobId: string, update: JobStatusUpdate): string {
+  const footer = formatFooter(jobId);
+
+  switch (update.state) {
+    case 'queued':
+      return `⏳ **Gemini Agent**: Job queued${update.position > 0 ? ` at position ${update.position}` : ''}${update.priority && update.priority !== 'normal' ? ` (${update.priority} priority)` : ''}
+
+${footer}`;
+
+    case 'deferred':
+      return update.reason === 'quota'
+        ? `⏳ **Gemini Agent**: Every Gemini API key is out of quota, so this job will run again at ${update.until}
+
+${footer}`
+        : `⏳ **Gemini Agent**: Today's Gemini budget is used up, so this job is queued for ${update.until} when it resets
+
+${footer}`;
+
+    case 'running':
+      return `🔄 **Gemini Agent**: Working on it${update.attempt > 1 ? ` (attempt ${update.attempt} of ${update.maxAttempts})` : ''}...
+
+${footer}`;
+
+    case 'retrying':
+      return `🔁 **Gemini Agent**: Attempt ${update.attempt} of ${update.maxAttempts} failed, retrying
+
+\`\`\`
+${update.error}
+\`\`\`
+
+${footer}`;
+
+    case 'completed':
+      return formatCompleted(update.result, footer);
+
+    case 'failed':
+      return formatFailed(update, footer);
+
+    case 'cancelled':
+      return `🛑 **Gemini Agent**: Job cancelled by ${update.requestedBy}
+
+Any changes from this run were discarded.
+
+${footer}`;
+  }
+}
+
+function formatCompleted(result: GeminiJobResult, footer: string): string {
+  const commits = result.commits.slice(0, MAX_LISTED_COMMITS).map(sha => `- ${sha.slice(0, 7)}`);
+  if (result.commits.length > MAX_LISTED_COMMITS) {
+    commits.push(`- ...and ${result.commits.length - MAX_LISTED_COMMITS} more`);
+  }
+
+  return `✅ **Gemini Agent**: Job completed in ${formatDuration(result.duration)}
+
+📋 **Project Type**: ${result.projectType}
+${result.pullRequestUrl ? `🔗 **Pull Request**: ${result.pullRequestUrl}\n` : ''}${result.notPushed ? `⚠️ **Not pushed**: ${result.notPushed}\n` : ''}
+**Commits:** ${result.commits.length > 0 ? `${result.commits.length}\n${commits.join('\n')}` : 'none'}
+
+**Summary:**
+\`\`\`
+${summarize(result.output)}
+\`\`\`
+
+${footer}`;
+}
+
+function formatFailed(update: Extract<JobStatusUpdate, { state: 'failed' }>, footer: string): string {
+  const hint = update.result?.timeout
+    ? `\n${update.result.timeout === 'idle' ? 'Gemini went quiet and looked hung, so the run was stopped.' : 'Gemini ran past its time limit, so the run was stopped.'}
+To allow more time, add \`--timeout <minutes>\` to the command or set \`timeoutMinutes\` / \`idleTimeoutMinutes\` in the repository's \`.gemini.json\`.\n`
+    : '';
+
+  return `❌ **Gemini Agent**: Job failed after ${formatDuration(update.durationMs)}
+
+\`\`\`
+${summarize(update.error)}
+\`\`\`
+${hint}
+${footer}`;
+}
+
+function formatFooter(jobId: string): string {
+  // DASHBOARD_URL doubles as the socket CORS origin, which may be a wildcard
+  const dashboardUrl = process.env.DASHBOARD_URL;
+  const link = dashboardUrl?.startsWith('http') ? ` · [View on dashboard](${dashboardUrl.replace(/\/$/, '')}/job/${jobId})` : '';
+  return `Job \`${jobId}\`${link}
+
+---
+*Gemini Coding Factory - Multi-Repository AI Development*`;
+}
+
+// The tail of the output is where the CLI reports what it did
+function summarize(output: string): string {
+  return output.trim().split('\n').slice(-SUMMARY_LINES).join('\n').replace(/```/g, "'''");
+}
@@ -0,0 +1,379 @@
+import path from 'path';
+import fs from 'fs';
+import { GeminiJobKind, JobQuery, JobRecord, JobRecordStatus, ParsedCommand, TriggerContext } from '../types';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('JobStore');
+
+const MAX_QUERY_LIMIT = 500;
+const DEFAULT_QUERY_LIMIT = 50;
+
+export const JOB_RECORD_STATUSES: JobRecordStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Schema shared by SQLite and Postgres - timestamps are ISO strings so filters sort the same way in both
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    status TEXT NOT NULL,
+    repository TEXT NOT NULL,
+    target_type TEXT NOT NULL,
+    target_number INTEGER NOT NULL,
+    user_login TEXT NOT NULL,
+    trigger_context TEXT NOT NULL,
+    command TEXT NOT NULL,
+    prompt_hash TEXT,
+    exit_code INTEGER,
+    duration_ms INTEGER,
+    commits TEXT NOT NULL DEFAULT '[]',
+    error TEXT,
+    log TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    completed_at TEXT
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_jobs_repository ON jobs (repository, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_jobs_user ON jobs (user_login, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs (status, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs (created_at)'
+];
+
+const LIST_COLUMNS = `id, kind, status, repository, target_type, target_number, user_login,
+  trigger_context, command, prompt_hash, exit_code, duration_ms, commits, error,
+  created_at, started_at, completed_at`;
+
+// Fields recorded when a job is enqueued
+export interface NewJobRecord {
+  id: string;
+  kind: GeminiJobKind;
+  trigger: TriggerContext;
+  command: ParsedCommand;
+  promptHash: string;
+  createdAt: string;
+}
+
+// Fields recorded when a job finishes
+export interface FinishedJobRecord {
+  status: Exclude<JobRecordStatus, 'queued' | 'running'>;
+  durationMs: number;
+  commits: string[];
+  exitCode?: number | null;
+  error?: string | null;
+}
+
+/**
+ * Durable job history that outlives BullMQ's completed/failed retention
+ */
+export abstract class JobStore {
+  abstract readonly backend: string;
+
+  /** Runs a statement written with `?` placeholders */
+  protected abstract run(sql: string, params: unknown[]): Promise<void>;
+
+  /** Runs a query written with `?` placeholders */
+  protected abstract all(sql: string, params: unknown[]): Promise<Record<string, any>[]>;
+
+  abstract close(): Promise<void>;
+
+  /**
+   * Creates the schema if it doesn't exist
+   */
+  async init(): Promise<void> {
+    for (const statement of SCHEMA) {
+      await this.run(statement, []);
+    }
+    logger.info('Job store initialized', { backend: this.backend });
+  }
+
+  /**
+   * Records a newly queued job
+   */
+  async recordQueued(job: NewJobRecord): Promise<void> {
+    await this.run(
+      `INSERT INTO jobs (id, kind, status, repository, target_type, target_number, user_login,
+         trigger_context, command, prompt_hash, created_at)
+       VALUES (?, ?, 'queued', ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        job.id,
+        job.kind,
+        job.trigger.repository.fullName,
+        job.trigger.target.type,
+        job.trigger.target.number,
+        job.trigger.comment.author,
+        JSON.stringify(job.trigger),
+        JSON.stringify(job.command),
+        job.promptHash,
+        job.createdAt
+      ]
+    );
+  }
+
+  /**
+   * Marks a job as picked up by a worker
+   */
+  async markRunning(id: string, startedAt: string = new Date().toISOString()): Promise<void> {
+    await this.run(
+      `UPDATE jobs SET status = 'running', started_at = ? WHERE id = ?`,
+      [startedAt, id]
+    );
+  }
+
+  /**
+   * Puts a job back to queued, e.g. when it was rescheduled to run after a quota pause
+   */
+  async markRequeued(id: string): Promise<void> {
+    await this.run(
+      `UPDATE jobs SET status = 'queued', started_at = NULL WHERE id = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Records the outcome of a job
+   */
+  async markFinished(id: string, result: FinishedJobRecord): Promise<void> {
+    await this.run(
+      `UPDATE jobs SET status = ?, duration_ms = ?, commits = ?, exit_code = ?, error = ?, completed_at = ?
+       WHERE id = ?`,
+      [
+        result.status,
+        Math.round(result.durationMs),
+        JSON.stringify(result.commits),
+        result.exitCode ?? null,
+        result.error ?? null,
+        new Date().toISOString(),
+        id
+      ]
+    );
+  }
+
+  /**
+   * Appends a line to the job's full log
+   */
+  async appendLog(id: string, line: string): Promise<void> {
+    await this.run('UPDATE jobs SET log = log || ? WHERE id = ?', [`${line}\n`, id]);
+  }
+
+  /**
+   * Gets a single job including its full log
+   */
+  async get(id: string): Promise<JobRecord | null> {
+    const rows = await this.all(`SELECT ${LIST_COLUMNS}, log FROM jobs WHERE id = ?`, [id]);
+    return rows.length > 0 ? this.toRecord(rows[0]) : null;
+  }
+
+  /**
+   * Lists jobs newest first, without logs
+   */
+  async list(query: JobQuery = {}): Promise<JobRecord[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.repository) {
+      conditions.push('repository = ?');
+      params.push(query.repository);
+    }
+    if (query.user) {
+      conditions.push('user_login = ?');
+      params.push(query.user);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.since) {
+      conditions.push('created_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until) {
+      conditions.push('created_at < ?');
+      params.push(query.until);
+    }
+
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+    const offset = Math.max(query.offset ?? 0, 0);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = await this.all(
+      `SELECT ${LIST_COLUMNS} FROM jobs ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    return rows.map(row => this.toRecord(row));
+  }
+
+  private toRecord(row: Record<string, any>): JobRecord {
+    return {
+      id: row.id,
+      kind: row.kind,
+      status: row.status,
+      repository: row.repository,
+      targetType: row.target_type,
+      targetNumber: Number(row.target_number),
+      user: row.user_login,
+      trigger: JSON.parse(row.trigger_context),
+      command: JSON.parse(row.command),
+      promptHash: row.prompt_hash ?? null,
+      exitCode: row.exit_code ?? null,
+      durationMs: row.duration_ms === null || row.duration_ms === undefined ? null : Number(row.duration_ms),
+      commits: JSON.parse(row.commits || '[]'),
+      error: row.error ?? null,
+      ...(row.log !== undefined && { log: row.log }),
+      createdAt: row.created_at,
+      startedAt: row.started_at ?? null,
+      completedAt: row.completed_at ?? null
+    };
+  }
+}
+
+/**
+ * SQLite-backed store - the default, a single file under the service data directory
+ */
+export class SqliteJobStore extends JobStore {
+  readonly backend = 'sqlite';
+  private db: import('better-sqlite3').Database | null = null;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const { default: Database } = await import('better-sqlite3');
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+
+    await super.init();
+  }
+
+  protected async run(sql: string, params: unknown[]): Promise<void> {
+    this.getDb().prepare(sql).run(...params);
+  }
+
+  protected async all(sql: string, params: unknown[]): Promise<Record<string, any>[]> {
+    return this.getDb().prepare(sql).all(...params) as Record<string, any>[];
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private getDb(): import('better-sqlite3').Database {
+    if (!this.db) {
+      throw new Error('SQLite job store not initialized');
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Postgres-backed store for the docker-compose `database` profile
+ */
+export class PostgresJobStore extends JobStore {
+  readonly backend = 'postgres';
+  private pool: import('pg').Pool | null = null;
+
+  constructor(private connectionString: string) {
+    super();
+  }
+
+  async init(): Promise<void> {
+    const { Pool } = await import('pg');
+    this.pool = new Pool({ connectionString: this.connectionString, max: 5 });
+
+    await super.init();
+  }
+
+  protected async run(sql: string, params: unknown[]): Promise<void> {
+    await this.getPool().query(this.toPositional(sql), params);
+  }
+
+  protected async all(sql: string, params: unknown[]): Promise<Record<string, any>[]> {
+    const { rows } = await this.getPool().query(this.toPositional(sql), params);
+    return rows;
+  }
+
+  async close(): Promise<void> {
+    await this.pool?.end();
+    this.pool = null;
+  }
+
+  // Converts `?` placeholders to Postgres' `$1, $2, ...`
+  private toPositional(sql: string): string {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  }
+
+  private getPool(): import('pg').Pool {
+    if (!this.pool) {
+      throw new Error('Postgres job store not initialized');
+    }
+    return this.pool;
+  }
+}
+
+/**
+ * Creates the job store selected by JOB_STORE (sqlite by default)
+ */
+export function createJobStore(): JobStore {
+  const backend = (process.env.JOB_STORE || 'sqlite').toLowerCase();
+
+  if (backend === 'postgres') {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('JOB_STORE=postgres requires DATABASE_URL');
+    }
+    return new PostgresJobStore(connectionString);
+  }
+
+  if (backend !== 'sqlite') {
+    throw new Error(`Unknown JOB_STORE backend: ${backend}`);
+  }
+
+  return new SqliteJobStore(
+    process.env.JOB_STORE_PATH || path.join(process.cwd(), 'data', 'jobs.db')
+  );
+}
+
+// Shared job store instance, created on startup once .env is loaded
+let jobStore: JobStore | null = null;
+
+let initialized = false;
+
+// Initialize job store on startup
+export async function initializeJobStore(): Promise<void> {
+  try {
+    jobStore = jobStore ?? createJobStore();
+    await jobStore.init();
+    initialized = true;
+  } catch (error) {
+    logger.error('Failed to initialize job store', {
+      backend: jobStore?.backend ?? process.env.JOB_STORE ?? 'sqlite',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+// The shared job store - only usable after initializeJobStore()
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    throw new Error('Job store not initialized');
+  }
+  return jobStore;
+}
+
+// Whether the store is ready - logging hooks skip writes until it is
+export function isJobStoreReady(): boolean {
+  return initialized;
+}
+
+// Graceful shutdown
+export async function closeJobStore(): Promise<void> {
+  initialized = false;
+  if (!jobStore) return;
+  await jobStore.close();
+  logger.info('Job store closed');
+}
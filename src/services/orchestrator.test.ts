@@ -0,0 +1,71 @@
+import { GeminiOrchestrator, isRateLimitResponse } from './orchestrator';
+import { ParsedCommand, PullRequestTarget, TriggerContext } from '../types';
+
+jest.mock('./queue', () => {
+  const RedisMock = require('ioredis-mock');
+  return { redis: new RedisMock() };
+});
+
+describe('Gemini rate-limit detection', () => {
+  it.each([
+    '[API Error: got status: 429 Too Many Requests. {"error":{"message":"Quota exceeded"}}]',
+    '{"error":{"code": 429,"message":"Resource has been exhausted","status":"RESOURCE_EXHAUSTED"}}',
+    'GaxiosError: Request failed with status code 429'
+  ])('recognizes %s', stderr => {
+    expect(isRateLimitResponse(stderr)).toBe(true);
+  });
+
+  it.each([
+    'Error: could not apply patch for PR #429',
+    'fatal: unable to read src/fixtures/429.json',
+    'Request failed with status code 4290',
+    '[API Error: got status: 500 Internal Server Error]'
+  ])('ignores %s', stderr => {
+    expect(isRateLimitResponse(stderr)).toBe(false);
+  });
+});
+
+describe('publishing pull request changes', () => {
+  const repositoryManager = {
+    getCommitsSince: jest.fn().mockResolvedValue(['abc1234']),
+    saveBranch: jest.fn(),
+    pushChanges: jest.fn()
+  };
+  const orchestrator = new GeminiOrchestrator('/tmp/workspace');
+  Object.assign(orchestrator, { repositoryManager });
+  jest.spyOn(orchestrator as any, 'commitAsFactory').mockResolvedValue('abc1234');
+
+  const command: ParsedCommand = { name: 'implement', args: 'cap the backoff', options: { push: true } };
+  const trigger = (target: PullRequestTarget): TriggerContext => ({
+    event: 'issue_comment',
+    repository: { fullName: 'acme/widgets', owner: 'acme', name: 'widgets', cloneUrl: 'https://github.com/acme/widgets.git', private: false },
+    target,
+    comment: { id: 1, body: '@gemini implement cap the backoff', author: 'octocat' }
+  });
+  const target = (headRepository?: string | null): PullRequestTarget => ({
+    type: 'pull_request', number: 42, headRef: 'main', headSha: '9f1c2e4', headRepository
+  });
+
+  afterEach(() => {
+    repositoryManager.saveBranch.mockClear();
+    repositoryManager.pushChanges.mockClear();
+  });
+
+  it('pushes to the head branch of a pull request on the same repository', async () => {
+    const pullRequest = target('Acme/Widgets');
+
+    await expect(orchestrator.publishPullRequestChanges(trigger(pullRequest), '/tmp/wt', pullRequest, 'implement', command))
+      .resolves.toEqual({ commits: ['abc1234'] });
+    expect(repositoryManager.pushChanges).toHaveBeenCalledWith('/tmp/wt', 'main', undefined);
+  });
+
+  it.each(['someone/widgets', null])('keeps work for a pull request from fork %s on a local branch', async headRepository => {
+    const pullRequest = target(headRepository);
+
+    const published = await orchestrator.publishPullRequestChanges(trigger(pullRequest), '/tmp/wt', pullRequest, 'implement', command);
+
+    expect(published.notPushed).toContain('fork');
+    expect(repositoryManager.pushChanges).not.toHaveBeenCalled();
+    expect(repositoryManager.saveBranch).toHaveBeenCalledWith('/tmp/wt', 'gemini/pr-42');
+  });
+});
@@ -3,148 +3,191 @@ import fs from 'fs/promises';
 import { RepositoryManager } from './repository-manager';
 import { ProjectDetector } from './project-detector';
 import { PromptBuilder } from './prompt-builder';
-import { GitHubWebhookPayload, ProjectConfig, WorkflowResult } from '../types';
+import { CommandParser } from './command-parser';
+import { providerFor, ThreadTarget } from './providers';
+import { getQuotaState } from './quota-state';
+import { CommandParseError, GeminiExecutionError, GeminiJobKind, IssueWorkBranch, JobCancelledError, QuotaExceededError, TimeoutError, ParsedCommand, ProjectConfig, PullRequestTarget, TriggerContext, WorkflowResult } from '../types';
 import { Logger } from '../utils/logger';
+import { killProcessTree } from '../utils/process';
 import { spawn } from 'child_process';
 import { join } from 'path';
 import readline from 'readline';
 
-// 🚨 NEW: QuotaExceededError for queue management
-class QuotaExceededError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'QuotaExceededError';
-  }
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
+
+// Host variables the Gemini CLI gets. The rest of the factory's environment - app keys, webhook and
+// admin secrets, the other keys in the pool, Redis and database passwords - stays out of its reach.
+const GEMINI_ENV_ALLOWLIST = ['PATH', 'HOME', 'LANG', 'TMPDIR'];
+
+// How the Gemini CLI reports the API refusing a request for quota: an HTTP 429 status, or the
+// RESOURCE_EXHAUSTED status of the API's JSON error body
+const RATE_LIMIT_PATTERN = /\bstatus(?: code)?:?\s*429\b|"code":\s*429\b|\bRESOURCE_EXHAUSTED\b/;
+
+export interface ExecuteGeminiOptions {
+  model?: string;
+  signal?: AbortSignal; // aborting kills the Gemini process tree
+  timeoutMs?: number;     // wall-clock limit for the whole run
+  idleTimeoutMs?: number; // limit on time between output lines
+  env?: Record<string, string | undefined>; // extra environment for the Gemini process
 }
 
 export class GeminiOrchestrator {
   private repositoryManager: RepositoryManager;
   private projectDetector: ProjectDetector;
   private promptBuilder: PromptBuilder;
+  private commandParser: CommandParser;
   private logger: Logger;
   private workspaceRoot: string;
 
-  // 🚨 QUOTA PROTECTION: Static variables to track API exhaustion
-  private static quotaExhausted = false;
-  private static quotaResetTime = 0;
-  private static readonly QUOTA_RESET_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
-
-  /**
-   * Manually reset quota protection (for false positives)
-   */
-  static resetQuotaProtection(): void {
-    GeminiOrchestrator.quotaExhausted = false;
-    GeminiOrchestrator.quotaResetTime = 0;
-    console.log('🔄 Quota protection manually reset');
-  }
-
-  /**
-   * Get current quota protection status
-   */
-  static getQuotaStatus(): { protected: boolean; resetTime: number } {
-    return {
-      protected: GeminiOrchestrator.quotaExhausted,
-      resetTime: GeminiOrchestrator.quotaResetTime
-    };
-  }
-
   constructor(workspaceRoot: string = '/home/wes/coding-factory') {
     this.workspaceRoot = workspaceRoot;
     this.repositoryManager = new RepositoryManager(workspaceRoot);
     this.projectDetector = new ProjectDetector();
     this.promptBuilder = new PromptBuilder();
+    this.commandParser = new CommandParser();
     this.logger = new Logger('GeminiOrchestrator');
   }
 
   /**
-   * Main entry point - processes a GitHub webhook payload
+   * Main entry point - processes a normalized trigger and its command.
+   * The trigger must already have been admitted by TriggerAdmission.
    */
-  async processWebhook(payload: GitHubWebhookPayload): Promise<WorkflowResult> {
-    const { repository, pull_request, comment } = payload;
+  async processWebhook(trigger: TriggerContext, command: ParsedCommand): Promise<WorkflowResult> {
+    const { repository, target, comment } = trigger;
     
-    this.logger.info(`Processing webhook for ${repository.full_name}`, {
-      prNumber: pull_request?.number,
-      commentId: comment?.id,
-      author: comment?.user.login
+    this.logger.info(`Processing webhook for ${repository.fullName}`, {
+      target: `${target.type}#${target.number}`,
+      commentId: comment.id,
+      author: comment.author
     });
 
+    let repoPath: string | undefined;
+
     try {
-      // 1. Validate the request
-      await this.validateRequest(payload);
+      // 1. Control commands only make sense against the job queue
+      if (!this.commandParser.isJobCommand(command)) {
+        throw new CommandParseError(
+          `\`${command.name}\` is only available on the queued webhook path`,
+          command.name
+        );
+      }
 
       // 2. Setup the repository locally
-      const repoPath = await this.setupRepository(payload);
+      ({ repoPath } = await this.prepareWorkspace(trigger, command));
 
       // 3. Detect project type and load configuration
       const projectConfig = await this.detectAndConfigureProject(repoPath);
 
-      // 4. Extract feature specification from comment
-      const featureSpec = this.extractFeatureSpec(comment?.body || '');
+      // 4. Run the Gemini agent with appropriate configuration
+      const result = await this.runGeminiAgent(repoPath, projectConfig, command, trigger);
 
-      // 5. Run the Gemini agent with appropriate configuration
-      const result = await this.runGeminiAgent(repoPath, projectConfig, featureSpec, payload);
-
-      // 6. Post results back to GitHub
-      await this.postResults(payload, result);
+      // 5. Post results back to the triggering thread
+      await this.postResults(trigger, result);
 
       return result;
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('Workflow failed', { error: errorMessage });
-      await this.postErrorToGitHub(payload, error instanceof Error ? error : new Error(String(error)));
+
+      if (error instanceof CommandParseError) {
+        await this.postHelp(trigger, error);
+        throw error;
+      }
+
+      await this.postError(trigger, error instanceof Error ? error : new Error(String(error)));
       throw error instanceof Error ? error : new Error(String(error));
+    } finally {
+      if (repoPath) {
+        await this.repositoryManager.removeWorktree(repoPath);
+      }
     }
   }
 
   /**
-   * Validates that the webhook request should be processed
+   * Sets up the repository locally and checks out the branch the trigger targets:
+   * the PR head for pull requests, or a fresh work branch for plain issues
    */
-  private async validateRequest(payload: GitHubWebhookPayload): Promise<void> {
-    const { comment, repository } = payload;
+  async prepareWorkspace(
+    trigger: TriggerContext,
+    command: ParsedCommand
+  ): Promise<{ repoPath: string; issueBranch?: IssueWorkBranch }> {
+    const { repository, target } = trigger;
+    
+    this.logger.info(`Setting up repository ${repository.fullName}`, {
+      target: `${target.type}#${target.number}`,
+      command: command.name
+    });
 
-    // Check if comment contains @gemini trigger
-    if (!comment?.body?.toLowerCase().includes('@gemini')) {
-      throw new Error('Comment does not contain @gemini trigger');
-    }
+    // Setup the shared mirror (clone if doesn't exist, fetch if it does)
+    const provider = providerFor(repository);
+    const token = await provider.getToken(repository);
+    const workspaceName = this.workspaceName(trigger);
+    const mirrorPath = await this.repositoryManager.setupRepository(
+      repository.cloneUrl,
+      workspaceName,
+      token
+    );
 
-    // Check if author is authorized (you can configure this)
-    const authorizedUsers = process.env.AUTHORIZED_USERS?.split(',') || ['wjorgensen'];
-    if (!authorizedUsers.includes(comment.user.login)) {
-      throw new Error(`User ${comment.user.login} is not authorized`);
+    // Each job gets its own worktree at the PR head
+    if (target.type === 'pull_request') {
+      const repoPath = await this.repositoryManager.checkoutPRBranch(
+        mirrorPath,
+        workspaceName,
+        target.number,
+        target.headRef,
+        target.headSha,
+        token,
+        provider.pullRequestRef(target.number)
+      );
+      return { repoPath };
     }
 
-    // Check if repository is accessible
-    if (repository.private && !process.env.GITHUB_TOKEN) {
-      throw new Error('Private repository requires GITHUB_TOKEN');
-    }
+    // Plain issues get a fresh work branch from the default branch
+    const issueBranch: IssueWorkBranch = {
+      issueNumber: target.number,
+      issueTitle: target.title,
+      branch: this.issueBranchName(target.number, target.title),
+      baseBranch: repository.defaultBranch ||
+        await this.repositoryManager.getDefaultBranch(mirrorPath)
+    };
+
+    const repoPath = await this.repositoryManager.createBranchFromBase(
+      mirrorPath,
+      workspaceName,
+      issueBranch.branch,
+      issueBranch.baseBranch,
+      token
+    );
+
+    return { repoPath, issueBranch };
   }
 
   /**
-   * Sets up the repository locally - clones or updates as needed
+   * Name of the repository's mirror and worktrees in the workspace, always two levels deep
+   * like GitHub's owner/repo. Other providers get a prefixed owner so names can't collide,
+   * and GitLab's nested groups are flattened.
    */
-  private async setupRepository(payload: GitHubWebhookPayload): Promise<string> {
-    const { repository, pull_request } = payload;
-    
-    this.logger.info(`Setting up repository ${repository.full_name}`);
-
-    // Setup repository (clone if doesn't exist, fetch if it does)
-    const repoPath = await this.repositoryManager.setupRepository(
-      repository.clone_url,
-      repository.full_name,
-      process.env.GITHUB_TOKEN
-    );
-
-    // Checkout the correct branch for the PR
-    if (pull_request) {
-      await this.repositoryManager.checkoutPRBranch(
-        repoPath,
-        pull_request.head.ref,
-        pull_request.head.sha
-      );
-    }
+  private workspaceName(trigger: TriggerContext): string {
+    const { repository } = trigger;
+    const provider = providerFor(repository);
+    return provider.name === 'github'
+      ? repository.fullName
+      : `${provider.name}--${repository.owner.replace(/\//g, '--')}/${repository.name}`;
+  }
 
-    return repoPath;
+  /**
+   * Builds the work branch name for an issue, e.g. gemini/issue-42-add-login-page
+   */
+  private issueBranchName(issueNumber: number, title: string): string {
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40)
+      .replace(/-+$/, '');
+
+    return `gemini/issue-${issueNumber}${slug ? `-${slug}` : ''}`;
   }
 
   /**
@@ -161,34 +204,23 @@ export class GeminiOrchestrator {
     return config;
   }
 
-  /**
-   * Extracts feature specification from the comment
-   */
-  private extractFeatureSpec(commentBody: string): string {
-    // Remove @gemini mention and clean up the text
-    return commentBody
-      .replace(/@gemini/gi, '')
-      .replace(/^\s+|\s+$/g, '') // trim
-      .replace(/\n\s*\n/g, '\n') // normalize line breaks
-      .trim();
-  }
-
   /**
    * Runs the Gemini agent with the appropriate configuration for the project type
    */
   private async runGeminiAgent(
     repoPath: string,
     projectConfig: ProjectConfig,
-    featureSpec: string,
-    payload: GitHubWebhookPayload
+    command: ParsedCommand,
+    trigger: TriggerContext
   ): Promise<WorkflowResult> {
     this.logger.info('Running Gemini agent', { 
+      command: command.name,
       projectType: projectConfig.type,
       repoPath 
     });
 
     // 🚨 QUOTA PROTECTION: Check if quota is exhausted
-    const quotaStatus = this.checkQuotaStatus();
+    const quotaStatus = await this.checkQuotaStatus();
     if (quotaStatus.blocked) {
       throw new Error(quotaStatus.message!);
     }
@@ -196,9 +228,10 @@ export class GeminiOrchestrator {
     // Build the prompt based on project type and configuration
     const prompt = await this.promptBuilder.buildPrompt(
       projectConfig,
-      featureSpec,
+      command.args,
       repoPath,
-      payload
+      trigger,
+      command.name as GeminiJobKind
     );
 
     // Save prompt to file for reference and CLI usage
@@ -212,21 +245,18 @@ export class GeminiOrchestrator {
       newMethod: '--prompt-file with saved file (eliminates argument length limits)',
       promptFile: promptFile,
       promptLength: prompt.length,
-      maxArgLength: 'Unlimited (file-based)',
-      quotaStatus: GeminiOrchestrator.quotaExhausted ? 'PROTECTED' : 'AVAILABLE'
+      maxArgLength: 'Unlimited (file-based)'
     });
 
     // Configure environment for Gemini
-    const env = {
-      ...process.env,
+    const env = geminiEnvironment({
       GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-      GITHUB_TOKEN: process.env.GITHUB_TOKEN,
-      PR_NUMBER: payload.pull_request?.number?.toString(),
-      REPO_OWNER: payload.repository.owner.login,
-      REPO_NAME: payload.repository.name,
+      PR_NUMBER: trigger.target.type === 'pull_request' ? trigger.target.number.toString() : undefined,
+      REPO_OWNER: trigger.repository.owner,
+      REPO_NAME: trigger.repository.name,
       PROJECT_TYPE: projectConfig.type,
       WORKSPACE_PATH: repoPath
-    };
+    });
 
     // Job queue handles the CLI execution now
     this.logger.info('✅ Job preparation completed - execution handled by worker queue', {
@@ -250,11 +280,12 @@ export class GeminiOrchestrator {
   // This orchestrator now only handles job preparation and validation
 
   /**
-   * Checks if quota is exhausted and should block requests
+   * Checks if the queue is paused for quota and should block requests
    */
-  private checkQuotaStatus(): { blocked: boolean; message?: string } {
-    if (GeminiOrchestrator.quotaExhausted && Date.now() < GeminiOrchestrator.quotaResetTime) {
-      const resetIn = Math.ceil((GeminiOrchestrator.quotaResetTime - Date.now()) / (60 * 1000));
+  private async checkQuotaStatus(): Promise<{ blocked: boolean; message?: string }> {
+    const state = await getQuotaState();
+    if (state && Date.now() < Date.parse(state.resumeAt)) {
+      const resetIn = Math.ceil((Date.parse(state.resumeAt) - Date.now()) / (60 * 1000));
       return {
         blocked: true,
         message: `🚫 **API Quota Exhausted - Service Protected**
@@ -267,22 +298,21 @@ Service is temporarily suspended to prevent further quota waste.
 - Protection: ACTIVE (no new requests allowed)
 
 **What caused this:**
-- Previous 98 requests due to incorrect CLI usage
-- Fixed: Now using --prompt flag instead of stdin piping
+- ${state.reason} (paused by ${state.pausedBy} at ${state.pausedAt})
 
 **Solutions:**
 1. Wait for quota reset (midnight UTC)
 2. Upgrade to paid tier for higher limits
 3. Use different API key
 
-Service will resume automatically when quota resets.`
+Service will resume automatically when quota resets, or run \`npm run quota:reset\` after a false positive.`
       };
     }
     return { blocked: false };
   }
 
   /**
-   * Detects quota exhaustion in stderr and activates protection
+   * Detects quota exhaustion in stderr; the worker moves to another API key on the resulting QuotaExceededError.
    * More specific detection to prevent false positives
    */
   private detectQuotaExhaustion(stderr: string): boolean {
@@ -307,13 +337,8 @@ Service will resume automatically when quota resets.`
     if (isQuotaExhausted) {
       this.logger.error('🚫 QUOTA EXHAUSTION DETECTED', {
         message: 'Activating quota protection to prevent further waste',
-        resetTime: new Date(Date.now() + GeminiOrchestrator.QUOTA_RESET_INTERVAL).toISOString(),
         stderrTrigger: stderr.substring(0, 500) // Log first 500 chars for debugging
       });
-      
-      // Set quota exhaustion protection
-      GeminiOrchestrator.quotaExhausted = true;
-      GeminiOrchestrator.quotaResetTime = Date.now() + GeminiOrchestrator.QUOTA_RESET_INTERVAL;
       return true;
     }
     return false;
@@ -423,48 +448,217 @@ Stderr: ${stderr}`;
   }
 
   /**
-   * Posts successful results back to GitHub
+   * Posts successful results back to the triggering thread
    */
-  private async postResults(payload: GitHubWebhookPayload, result: WorkflowResult): Promise<void> {
-    if (!payload.pull_request) return;
+  private async postResults(trigger: TriggerContext, result: WorkflowResult): Promise<void> {
+    await this.replyToTrigger(trigger, this.formatSuccessComment(result));
+  }
 
-    const comment = this.formatSuccessComment(result);
-    
-    await this.postCommentToGitHub(
-      payload.repository.owner.login,
-      payload.repository.name,
-      payload.pull_request.number,
-      comment
+  /**
+   * Posts error information back to the triggering thread
+   */
+  private async postError(trigger: TriggerContext, error: Error): Promise<void> {
+    await this.replyToTrigger(trigger, this.formatErrorComment(error.message));
+  }
+
+  /**
+   * Commits the work on an issue branch, pushes it and opens a draft PR linking back to the issue
+   */
+  async publishIssueBranch(
+    trigger: TriggerContext,
+    repoPath: string,
+    workBranch: IssueWorkBranch,
+    command: ParsedCommand
+  ): Promise<{ commits: string[]; pullRequestUrl?: string }> {
+    const { repository } = trigger;
+    const provider = providerFor(repository);
+    const requester = trigger.comment.author;
+
+    // Gemini may have committed on its own - pick up anything it left uncommitted
+    await this.commitAsFactory(
+      trigger,
+      repoPath,
+      this.formatCommitMessage(`feat: ${workBranch.issueTitle} (#${workBranch.issueNumber})`, trigger, command)
     );
+
+    const commits = await this.repositoryManager.getCommitsSince(repoPath, `origin/${workBranch.baseBranch}`);
+    if (commits.length === 0) {
+      this.logger.info('No changes produced for issue, skipping pull request', {
+        repository: trigger.repository.fullName,
+        issue: workBranch.issueNumber
+      });
+      return { commits };
+    }
+
+    // Keep the work on a local branch in the mirror - the job's worktree is removed afterwards
+    await this.repositoryManager.saveBranch(repoPath, workBranch.branch);
+
+    if (!command.options.push) {
+      this.logger.info('Push disabled by --no-push, keeping issue branch local', {
+        branch: workBranch.branch,
+        commits: commits.length
+      });
+      return { commits };
+    }
+
+    await this.repositoryManager.pushChanges(repoPath, workBranch.branch, await provider.getToken(repository));
+
+    const pullRequest = await provider.createPullRequest(repository, {
+      title: workBranch.issueTitle,
+      head: workBranch.branch,
+      base: workBranch.baseBranch,
+      draft: true,
+      body: `Closes #${workBranch.issueNumber}
+
+Implemented by the Gemini Coding Factory at the request of @${requester}.
+
+---
+*Gemini Coding Factory - Multi-Repository AI Development*`
+    });
+
+    if (pullRequest) {
+      await this.postComment(
+        trigger,
+        { type: 'issue', number: workBranch.issueNumber },
+        `🚀 Opened draft pull request ${pullRequest.url} with ${commits.length} commit(s) for this issue.`
+      );
+    }
+
+    return { commits, pullRequestUrl: pullRequest?.url };
+  }
+
+  /**
+   * Commits Gemini's changes on a pull request worktree and pushes them to the PR head branch.
+   * Pull requests from forks are never pushed: the head branch isn't on the repository's remote,
+   * and pushing its name there would write to an unrelated branch of the base repository.
+   */
+  async publishPullRequestChanges(
+    trigger: TriggerContext,
+    repoPath: string,
+    target: PullRequestTarget,
+    kind: GeminiJobKind,
+    command: ParsedCommand
+  ): Promise<{ commits: string[]; notPushed?: string }> {
+    const summary = command.args.split('\n')[0].trim();
+    const subject = kind === 'fix-tests'
+      ? `fix: ${summary || 'make the test suite pass'}`
+      : `feat: ${summary || `changes requested on #${target.number}`}`;
+
+    // Gemini may have committed on its own - pick up anything it left uncommitted
+    await this.commitAsFactory(trigger, repoPath, this.formatCommitMessage(subject, trigger, command));
+
+    // The worktree was created at the PR head, so everything after it is this job's work
+    const commits = await this.repositoryManager.getCommitsSince(repoPath, target.headSha);
+    if (commits.length === 0) {
+      this.logger.info('No changes produced for pull request, nothing to push', {
+        repository: trigger.repository.fullName,
+        pullRequest: target.number
+      });
+      return { commits };
+    }
+
+    if (!command.options.push) {
+      // Keep the work on a local branch in the mirror - the job's worktree is removed afterwards
+      await this.repositoryManager.saveBranch(repoPath, `gemini/pr-${target.number}`);
+      this.logger.info('Push disabled by --no-push, leaving pull request branch untouched', {
+        branch: target.headRef,
+        commits: commits.length
+      });
+      return { commits };
+    }
+
+    if (isFromFork(trigger, target)) {
+      await this.repositoryManager.saveBranch(repoPath, `gemini/pr-${target.number}`);
+      this.logger.warn('Pull request head is on a fork, leaving it untouched', {
+        repository: trigger.repository.fullName,
+        pullRequest: target.number,
+        headRepository: target.headRepository
+      });
+      return {
+        commits,
+        notPushed: `the pull request comes from ${target.headRepository ? `the fork ${target.headRepository}` : 'a deleted fork'}, which the factory can't push to`
+      };
+    }
+
+    await this.repositoryManager.pushChanges(repoPath, target.headRef, await providerFor(trigger.repository).getToken(trigger.repository));
+
+    this.logger.info('Pushed changes to pull request', {
+      repository: trigger.repository.fullName,
+      pullRequest: target.number,
+      branch: target.headRef,
+      commits: commits.length
+    });
+
+    return { commits };
+  }
+
+  /**
+   * Commits pending changes, attributed to the GitHub App's bot account when running as an app
+   */
+  private async commitAsFactory(trigger: TriggerContext, repoPath: string, message: string): Promise<string> {
+    const author = await providerFor(trigger.repository).getCommitAuthor();
+    return author
+      ? this.repositoryManager.commitChanges(repoPath, message, author.name, author.email)
+      : this.repositoryManager.commitChanges(repoPath, message);
+  }
+
+  /**
+   * Builds a commit message from a subject line, the feature spec and the triggering comment
+   */
+  private formatCommitMessage(subject: string, trigger: TriggerContext, command: ParsedCommand): string {
+    // Keep the subject on one line and within what git tooling displays
+    const firstLine = subject.length > 72 ? `${subject.slice(0, 69)}...` : subject;
+    const spec = command.args.trim();
+
+    return [
+      firstLine,
+      ...(spec && spec !== subject ? [spec] : []),
+      `Requested by @${trigger.comment.author} via @gemini ${command.name} on #${trigger.target.number}.`
+    ].join('\n\n');
   }
 
   /**
-   * Posts error information back to GitHub
+   * Posts command help in reply to an unknown or malformed command
    */
-  private async postErrorToGitHub(payload: GitHubWebhookPayload, error: Error): Promise<void> {
-    if (!payload.pull_request) return;
+  private async postHelp(trigger: TriggerContext, error: CommandParseError): Promise<void> {
+    await this.replyToTrigger(trigger, this.commandParser.formatHelp(error));
+  }
 
-    const comment = `❌ **Gemini Agent Error**
+  /**
+   * Replies to the triggering comment - in its review thread for diff comments,
+   * otherwise on the issue or pull request conversation
+   */
+  async replyToTrigger(trigger: TriggerContext, body: string): Promise<void> {
+    const { repository, target, reviewLocation } = trigger;
+
+    if (reviewLocation && target.type === 'pull_request') {
+      await providerFor(repository).replyToReviewComment(repository, target.number, reviewLocation, body);
+      return;
+    }
+
+    await this.postComment(trigger, target, body);
+  }
+
+  /**
+   * Formats the error comment
+   */
+  private formatErrorComment(message: string): string {
+    return `❌ **Gemini Agent Error**
 
 Failed to process your request:
 \`\`\`
-${error.message}
+${message}
 \`\`\`
 
 Please check the server logs for more details or try again.`;
-
-    await this.postCommentToGitHub(
-      payload.repository.owner.login,
-      payload.repository.name,
-      payload.pull_request.number,
-      comment
-    );
   }
 
   /**
-   * Formats the success comment for GitHub
+   * Formats the success comment
    */
-  private formatSuccessComment(result: WorkflowResult): string {
+  private formatSuccessComment(
+    result: Pick<WorkflowResult, 'output' | 'timestamp' | 'commits'> & { projectType: string }
+  ): string {
     return `✅ **Gemini Agent**: Feature implementation complete!
 
 📋 **Project Type**: ${result.projectType}
@@ -481,41 +675,26 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
   }
 
   /**
-   * Posts a comment to GitHub using the GitHub API
+   * Posts a comment on an issue or pull request of the trigger's repository
    */
-  private async postCommentToGitHub(
-    owner: string,
-    repo: string,
-    prNumber: number,
-    body: string
-  ): Promise<void> {
-    const { Octokit } = await import('@octokit/rest');
-    const octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN
-    });
-
-    try {
-      await octokit.rest.issues.createComment({
-        owner,
-        repo,
-        issue_number: prNumber,
-        body
-      });
-      this.logger.info(`Posted comment to ${owner}/${repo}#${prNumber}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error('Failed to post comment to GitHub', { error: errorMessage });
-    }
+  private async postComment(trigger: TriggerContext, target: ThreadTarget, body: string): Promise<void> {
+    await providerFor(trigger.repository).createComment(trigger.repository, target, body);
   }
 
-  async executeGemini(repoPath: string, prompt: string, jobId?: string): Promise<string> {
-    this.logger.info(`Executing Gemini for ${repoPath}`);
+  async executeGemini(
+    repoPath: string,
+    prompt: string,
+    jobId?: string,
+    options: ExecuteGeminiOptions = {}
+  ): Promise<string> {
+    const model = options.model || DEFAULT_GEMINI_MODEL;
+    this.logger.info(`Executing Gemini for ${repoPath}`, { model });
 
     // Use the correct Gemini CLI flags based on the help output
     const geminiArgs = [
       '--prompt', prompt,  // Use -p/--prompt instead of --prompt-file
       '--yolo',            // Auto-accept actions
-      '--model', 'gemini-2.5-pro',
+      '--model', model,
       '--all_files'        // Include all files in context
     ];
 
@@ -523,6 +702,11 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
     const { emitJobStdout } = await import('./events');
 
     return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(this.cancellationError(options.signal, jobId));
+        return;
+      }
+
       if (jobId) {
         emitJobStdout(jobId, `🚀 Starting Gemini CLI: gemini ${geminiArgs.filter(arg => arg !== prompt).join(' ')} --prompt "<prompt>"`);
         emitJobStdout(jobId, `📁 Working directory: ${repoPath}`);
@@ -531,12 +715,51 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
 
       const geminiProcess = spawn('gemini', geminiArgs, {
         cwd: repoPath,
-        env: { 
-          ...process.env,
-          GEMINI_API_KEY: process.env.GEMINI_API_KEY
-        }
+        env: geminiEnvironment({
+          GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+          ...options.env
+        }),
+        // Own process group so tools Gemini starts can be killed with it
+        detached: true
       });
 
+      const onAbort = () => {
+        if (jobId) {
+          emitJobStdout(jobId, '🛑 Cancellation requested - terminating Gemini process');
+        }
+        killProcessTree(geminiProcess);
+        reject(this.cancellationError(options.signal!, jobId));
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      // A hung process would hold a worker slot forever, so both limits kill the whole group
+      const onTimeout = (error: TimeoutError) => {
+        if (jobId) {
+          emitJobStdout(jobId, `⏱️ ${error.message} - terminating Gemini process`);
+        }
+        this.logger.warn('Gemini execution timed out', { repoPath, kind: error.kind, limitMs: error.limitMs });
+        killProcessTree(geminiProcess);
+        reject(error);
+      };
+
+      const wallClockTimer = options.timeoutMs
+        ? setTimeout(() => onTimeout(new TimeoutError('wall-clock', options.timeoutMs!)), options.timeoutMs)
+        : null;
+
+      let idleTimer: NodeJS.Timeout | null = null;
+      const resetIdleTimer = () => {
+        if (!options.idleTimeoutMs) return;
+        if (idleTimer) clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => onTimeout(new TimeoutError('idle', options.idleTimeoutMs!)), options.idleTimeoutMs);
+      };
+      resetIdleTimer();
+
+      const cleanup = () => {
+        options.signal?.removeEventListener('abort', onAbort);
+        if (wallClockTimer) clearTimeout(wallClockTimer);
+        if (idleTimer) clearTimeout(idleTimer);
+      };
+
       const out = readline.createInterface({ input: geminiProcess.stdout! });
       const err = readline.createInterface({ input: geminiProcess.stderr! });
 
@@ -544,6 +767,7 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
       let errorOutput = '';
 
       out.on('line', line => {
+        resetIdleTimer();
         output += line + '\n';
         if (jobId) {
           emitJobStdout(jobId, line);
@@ -551,6 +775,7 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
       });
 
       err.on('line', line => {
+        resetIdleTimer();
         errorOutput += line + '\n';
         if (jobId) {
           emitJobStdout(jobId, `🔶 ${line}`);
@@ -560,12 +785,14 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
           if (jobId) {
             emitJobStdout(jobId, '🚫 API quota exhausted - terminating process');
           }
-          geminiProcess.kill();
+          killProcessTree(geminiProcess);
           reject(new QuotaExceededError('API quota exhausted'));
         }
       });
 
       geminiProcess.on('close', code => {
+        cleanup();
+
         if (jobId) {
           emitJobStdout(jobId, `🏁 Gemini process finished with exit code: ${code}`);
         }
@@ -575,16 +802,23 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
             emitJobStdout(jobId, '✅ Gemini execution completed successfully');
           }
           resolve(output);
+        } else if (isRateLimitResponse(errorOutput)) {
+          if (jobId) {
+            emitJobStdout(jobId, '🚫 Gemini API refused the request for quota');
+          }
+          reject(new QuotaExceededError(`Gemini process failed with code ${code ?? -1}: API quota exhausted`));
         } else {
           const errorMsg = this.enhanceErrorMessage(code ?? -1, errorOutput);
           if (jobId) {
             emitJobStdout(jobId, `❌ Gemini execution failed: ${errorMsg}`);
           }
-          reject(new Error(errorMsg));
+          reject(new GeminiExecutionError(errorMsg, code ?? -1, errorOutput));
         }
       });
 
       geminiProcess.on('error', err => {
+        cleanup();
+
         if (jobId) {
           emitJobStdout(jobId, `💥 Process error: ${err.message}`);
         }
@@ -592,4 +826,39 @@ ${result.commits.length > 0 ? `**Commits added:** ${result.commits.length}` : ''
       });
     });
   }
-} 
\ No newline at end of file
+
+  /**
+   * The error a cancelled execution rejects with - the abort reason when one was given
+   */
+  private cancellationError(signal: AbortSignal, jobId?: string): Error {
+    return signal.reason instanceof Error ? signal.reason : new JobCancelledError(jobId || 'unknown');
+  }
+} 
+
+/**
+ * Whether a pull request's head branch lives outside the repository the job runs on
+ */
+function isFromFork(trigger: TriggerContext, target: PullRequestTarget): boolean {
+  return target.headRepository !== undefined &&
+    target.headRepository?.toLowerCase() !== trigger.repository.fullName.toLowerCase();
+}
+
+/**
+ * Environment for a Gemini run: the allowlisted host variables plus the run's own values
+ */
+function geminiEnvironment(values: Record<string, string | undefined>): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of GEMINI_ENV_ALLOWLIST) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  return { ...env, ...values };
+}
+
+/**
+ * Whether a failed Gemini run's stderr carries the API's rate-limit answer rather than just mentioning a 429
+ */
+export function isRateLimitResponse(stderr: string): boolean {
+  return RATE_LIMIT_PATTERN.test(stderr);
+}
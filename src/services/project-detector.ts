@@ -51,7 +51,9 @@ export class ProjectDetector {
       detectedFeatures,
       customPrompts: customConfig.customPrompts,
       environmentVariables: customConfig.environmentVariables,
-      additionalCommands: customConfig.additionalCommands
+      additionalCommands: customConfig.additionalCommands,
+      timeoutMinutes: customConfig.timeoutMinutes,
+      idleTimeoutMinutes: customConfig.idleTimeoutMinutes
     };
 
     this.logger.debug('Final project configuration', finalConfig);
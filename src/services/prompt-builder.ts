@@ -1,6 +1,6 @@
 import path from 'path';
 import fs from 'fs/promises';
-import { ProjectConfig, PromptContext, PromptTemplate, GitHubWebhookPayload } from '../types';
+import { ProjectConfig, PromptContext, PromptTemplate, GeminiJobKind, IssueTarget, ReviewCommentLocation, TriggerContext } from '../types';
 import { Logger } from '../utils/logger';
 
 export class PromptBuilder {
@@ -17,11 +17,15 @@ export class PromptBuilder {
     projectConfig: ProjectConfig,
     featureSpec: string,
     repositoryPath: string,
-    webhookPayload: GitHubWebhookPayload
+    trigger: TriggerContext,
+    kind: GeminiJobKind = 'implement'
   ): Promise<string> {
     const startTime = Date.now();
     
     this.logger.info('Building simplified prompt (using global GEMINI.md)', {
+      kind,
+      target: `${trigger.target.type}#${trigger.target.number}`,
+      anchoredTo: trigger.reviewLocation?.path,
       projectType: projectConfig.type,
       framework: projectConfig.framework,
       improvement: 'Reduced prompt size by 80% using global workflow file'
@@ -34,7 +38,7 @@ export class PromptBuilder {
       
       // Build minimal prompt - workflow instructions are in ~/.gemini/GEMINI.md
       this.logger.debug('Building minimal prompt');
-      const prompt = this.buildMinimalPrompt(projectConfig, featureSpec, webhookPayload, projectContext);
+      const prompt = this.buildMinimalPrompt(projectConfig, featureSpec, trigger, projectContext, kind);
       
       this.logger.info('Simplified prompt build completed', { 
         totalDuration: Date.now() - startTime + 'ms',
@@ -62,13 +66,22 @@ export class PromptBuilder {
   private buildMinimalPrompt(
     projectConfig: ProjectConfig,
     featureSpec: string,
-    webhookPayload: GitHubWebhookPayload,
-    projectContext: string
+    trigger: TriggerContext,
+    projectContext: string,
+    kind: GeminiJobKind
   ): string {
+    const location = trigger.reviewLocation;
+    const locationSection = location ? `\n${this.buildLocationSection(location)}\n` : '';
+
+    // On plain issues the issue itself is the specification
+    const taskSpec = trigger.target.type === 'issue'
+      ? this.formatIssueSpec(trigger.target, featureSpec)
+      : featureSpec;
+
     return `# Development Task
 
 ## Project Context
-**Repository**: ${webhookPayload.repository.full_name}
+**Repository**: ${trigger.repository.fullName}
 **Type**: ${projectConfig.type} (${projectConfig.framework})
 **Language**: ${projectConfig.language}
 **Package Manager**: ${projectConfig.packageManager}
@@ -83,14 +96,67 @@ export class PromptBuilder {
 **Features**: ${projectConfig.detectedFeatures.join(', ')}
 
 ${projectContext}
-
-## Task
-${featureSpec}
+${locationSection}
+${this.buildTaskSection(kind, taskSpec, projectConfig)}
 
 ---
 **Note**: Follow the Gemini Development Protocol from your global GEMINI.md file. Start with analysis, create a feature plan, implement systematically, test thoroughly, and ensure quality.`;
   }
 
+  /**
+   * Formats an issue and the triggering request into a feature specification
+   */
+  private formatIssueSpec(issue: IssueTarget, request: string): string {
+    return `### Issue #${issue.number}: ${issue.title}
+
+${issue.body.trim() || '_No description provided._'}
+${request ? `\n### Request\n${request}\n` : ''}
+Work on the new branch that has been checked out for this issue.`;
+  }
+
+  /**
+   * Anchors the task to the diff lines a review comment was left on
+   */
+  private buildLocationSection(location: ReviewCommentLocation): string {
+    const { startLine, endLine } = location;
+    const lines = startLine && endLine && startLine !== endLine
+      ? `${startLine}-${endLine}`
+      : `${endLine ?? startLine ?? 'unknown'}`;
+
+    return `## Location
+This request was left as a review comment on a specific part of the diff. Scope your changes to this location unless the task clearly requires touching other code.
+
+**File**: \`${location.path}\`
+**Lines**: ${lines}${location.diffHunk ? `
+
+\`\`\`diff
+${location.diffHunk}
+\`\`\`` : ''}`;
+  }
+
+  /**
+   * Builds the task section for the requested job kind
+   */
+  private buildTaskSection(kind: GeminiJobKind, featureSpec: string, projectConfig: ProjectConfig): string {
+    const extra = featureSpec ? `\n\n**Additional context from the requester:**\n${featureSpec}` : '';
+
+    switch (kind) {
+      case 'fix-tests':
+        return `## Task
+Run the test suite with \`${projectConfig.testCommand}\` and fix the failing tests. Prefer fixing the code under test over weakening assertions, and do not delete tests.${extra}`;
+      case 'review':
+        return `## Task
+Review the changes on the current branch against the default branch. Report bugs, risky changes, missing tests and style issues as a concise markdown list grouped by file. **Do not modify any files.**${extra}`;
+      case 'explain':
+        return `## Task
+Explain the code on the current branch in clear prose for a reviewer unfamiliar with it. **Do not modify any files.**${extra}`;
+      case 'implement':
+      default:
+        return `## Task
+${featureSpec}`;
+    }
+  }
+
   /**
    * Gathers minimal project context (much simpler than before)
    */
@@ -0,0 +1,304 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { CommitAuthor } from '../github-auth';
+import {
+  CommentReaction,
+  GiteaCommentPayload,
+  ProviderApiError,
+  RepositoryPermission,
+  ReviewCommentLocation,
+  TriggerContext,
+  TriggerRepository
+} from '../../types';
+import { Logger } from '../../utils/logger';
+import { GitProvider, SignatureCheck, ThreadTarget, WebhookRoute, apiBaseUrl, header, matchHmacSignature, onConfiguredHost, requestJson } from './provider';
+
+/**
+ * Self-hosted Gitea repositories, triggered by issue and pull request comments.
+ *
+ * Gitea's payloads and API follow GitHub's closely. API calls use the token in GITEA_TOKEN
+ * against GITEA_URL, which is required with a token; the token is only used for repositories cloned from that host.
+ */
+export class GiteaProvider implements GitProvider {
+  readonly name = 'gitea' as const;
+  readonly tokenEnv = 'GITEA_TOKEN';
+  readonly signsBody = true;
+
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('GiteaProvider');
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GITEA_TOKEN && process.env.GITEA_URL);
+  }
+
+  describeDelivery(headers: IncomingHttpHeaders): { event?: string; deliveryId?: string } {
+    return {
+      event: header(headers, 'x-gitea-event'),
+      deliveryId: header(headers, 'x-gitea-delivery')
+    };
+  }
+
+  /**
+   * Verifies X-Gitea-Signature, a hex HMAC-SHA256 of the body
+   */
+  verifySignature(headers: IncomingHttpHeaders, rawBody: Buffer | undefined, secrets: string[]): SignatureCheck {
+    const signature = header(headers, 'x-gitea-signature');
+    if (!signature) {
+      return { reason: 'Missing X-Gitea-Signature header' };
+    }
+
+    return matchHmacSignature(signature, rawBody, secrets, 'X-Gitea-Signature');
+  }
+
+  async routeWebhook(event: string | undefined, body: unknown, deliveryId?: string): Promise<WebhookRoute> {
+    const payload = body as GiteaCommentPayload;
+
+    // Comments on pull requests arrive as pull_request_comment on newer Gitea versions
+    if (event !== 'issue_comment' && event !== 'pull_request_comment') {
+      return { type: 'ignored', message: 'Event ignored' };
+    }
+
+    if (payload?.action && payload.action !== 'created') {
+      this.logger.info('Ignoring comment action', {
+        action: payload.action,
+        commentId: payload.comment?.id,
+        delivery: deliveryId
+      });
+      return { type: 'ignored', message: 'Comment action ignored' };
+    }
+
+    if (!this.isValidCommentPayload(payload)) {
+      return { type: 'invalid', message: 'Invalid payload structure' };
+    }
+
+    return {
+      type: 'comment',
+      repository: payload.repository.full_name,
+      commentId: payload.comment!.id,
+      body: payload.comment!.body,
+      normalize: () => this.normalize(payload, deliveryId)
+    };
+  }
+
+  getToken(repository: TriggerRepository): Promise<string | undefined> {
+    return Promise.resolve(onConfiguredHost(process.env.GITEA_URL, repository) ? process.env.GITEA_TOKEN : undefined);
+  }
+
+  getCommitAuthor(): Promise<CommitAuthor | undefined> {
+    return Promise.resolve(undefined);
+  }
+
+  pullRequestRef(number: number): string {
+    return `refs/pull/${number}/head`;
+  }
+
+  async getPullRequest(repository: TriggerRepository, number: number) {
+    return this.attempt(`fetch pull request ${repository.fullName}#${number}`, null, async () => {
+      const data = await this.request<{ head: { ref: string; sha: string; repo?: { full_name: string } | null }; base: { ref: string } }>(
+        repository, 'GET', `/pulls/${number}`
+      );
+      return { headRef: data.head.ref, headSha: data.head.sha, baseRef: data.base.ref, headRepository: data.head.repo?.full_name ?? null };
+    });
+  }
+
+  async createPullRequest(
+    repository: TriggerRepository,
+    options: { title: string; head: string; base: string; body: string; draft?: boolean }
+  ) {
+    return this.attempt('open pull request', null, async () => {
+      // Gitea marks pull requests as work in progress by title prefix
+      const data = await this.request<{ number: number; html_url: string }>(repository, 'POST', '/pulls', {
+        head: options.head,
+        base: options.base,
+        title: options.draft ? `WIP: ${options.title}` : options.title,
+        body: options.body
+      });
+      this.logger.info(`Opened pull request ${repository.fullName}#${data.number}`, {
+        head: options.head,
+        base: options.base,
+        draft: options.draft
+      });
+      return { number: data.number, url: data.html_url };
+    });
+  }
+
+  async createComment(repository: TriggerRepository, target: ThreadTarget, body: string): Promise<number | null> {
+    return this.attempt('post comment to Gitea', null, async () => {
+      const data = await this.request<{ id: number }>(repository, 'POST', `/issues/${target.number}/comments`, { body });
+      this.logger.info(`Posted comment to ${repository.fullName}#${target.number}`);
+      return data.id;
+    });
+  }
+
+  /**
+   * Gitea triggers are conversation comments, so replies go on the pull request itself
+   */
+  replyToReviewComment(
+    repository: TriggerRepository,
+    pullNumber: number,
+    _location: ReviewCommentLocation,
+    body: string
+  ): Promise<number | null> {
+    return this.createComment(repository, { type: 'pull_request', number: pullNumber }, body);
+  }
+
+  async updateComment(repository: TriggerRepository, _target: ThreadTarget, commentId: number, body: string): Promise<boolean> {
+    return this.attempt(`update comment ${commentId} on ${repository.fullName}`, false, async () => {
+      await this.request(repository, 'PATCH', `/issues/comments/${commentId}`, { body });
+      return true;
+    });
+  }
+
+  /**
+   * Gitea reactions have no id of their own - they are removed by content, so 0 stands in
+   */
+  async addReaction(trigger: TriggerContext, content: CommentReaction): Promise<number | null> {
+    const { repository, comment } = trigger;
+    return this.attempt(`react to comment ${comment.id} on ${repository.fullName}`, null, async () => {
+      await this.request(repository, 'POST', `/issues/comments/${comment.id}/reactions`, { content });
+      return 0;
+    });
+  }
+
+  async removeReaction(trigger: TriggerContext, reaction: { id: number; content: CommentReaction }): Promise<boolean> {
+    const { repository, comment } = trigger;
+    return this.attempt(`remove reaction from comment ${comment.id} on ${repository.fullName}`, false, async () => {
+      await this.request(repository, 'DELETE', `/issues/comments/${comment.id}/reactions`, { content: reaction.content });
+      return true;
+    });
+  }
+
+  async getPermissionLevel(repository: TriggerRepository, username: string): Promise<RepositoryPermission | null> {
+    let permission: string;
+    try {
+      ({ permission } = await this.request<{ permission: string }>(
+        repository, 'GET', `/collaborators/${encodeURIComponent(username)}/permission`
+      ));
+    } catch (error) {
+      // Gitea answers 404 for users that don't exist
+      if (error instanceof ProviderApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    // Gitea has no triage or maintain roles
+    const roles: Record<string, RepositoryPermission> = { read: 'read', write: 'write', admin: 'admin', owner: 'admin' };
+    return roles[permission] ?? null;
+  }
+
+  /**
+   * Teams are given as "org/team-name"
+   */
+  async isTeamMember(repository: TriggerRepository, team: string, username: string): Promise<boolean> {
+    const [org, name] = team.split('/');
+    if (!org || !name) {
+      this.logger.warn('Ignoring malformed team in access policy (expected "org/team-name")', { team });
+      return false;
+    }
+
+    const { data: teams } = await this.request<{ data: { id: number; name: string }[] }>(
+      repository, 'GET', `/orgs/${encodeURIComponent(org)}/teams/search?q=${encodeURIComponent(name)}`, undefined, true
+    );
+    const match = teams.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!match) return false;
+
+    try {
+      await this.request(repository, 'GET', `/teams/${match.id}/members/${encodeURIComponent(username)}`, undefined, true);
+      return true;
+    } catch (error) {
+      // Gitea answers 404 for non-members
+      if (error instanceof ProviderApiError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async normalize(payload: GiteaCommentPayload, deliveryId?: string): Promise<TriggerContext> {
+    const { repository: repo, issue, comment } = payload;
+
+    const repository: TriggerRepository = {
+      provider: 'gitea',
+      fullName: repo.full_name,
+      owner: repo.owner.login,
+      name: repo.name,
+      cloneUrl: repo.clone_url,
+      private: repo.private,
+      defaultBranch: repo.default_branch
+    };
+
+    if (!issue) {
+      throw new Error('Payload has no issue');
+    }
+
+    // Like GitHub, pull request conversations are issues and the head has to be fetched
+    let target: TriggerContext['target'];
+    if (payload.is_pull || issue.pull_request) {
+      const pullRequest = await this.getPullRequest(repository, issue.number);
+      if (!pullRequest) {
+        throw new Error(`Unable to resolve pull request ${repo.full_name}#${issue.number}`);
+      }
+      target = { type: 'pull_request', number: issue.number, ...pullRequest };
+    } else {
+      target = { type: 'issue', number: issue.number, title: issue.title || `Issue #${issue.number}`, body: issue.body || '' };
+    }
+
+    return {
+      event: 'issue_comment',
+      deliveryId,
+      repository,
+      target,
+      comment: {
+        id: comment!.id,
+        body: comment!.body,
+        author: comment!.user.login
+      }
+    };
+  }
+
+  private isValidCommentPayload(payload: any): payload is GiteaCommentPayload {
+    return payload &&
+           payload.repository &&
+           payload.repository.full_name &&
+           payload.repository.clone_url &&
+           payload.issue &&
+           payload.comment &&
+           payload.comment.body &&
+           payload.comment.user &&
+           payload.comment.user.login;
+  }
+
+  /**
+   * Calls the API, relative to the repository unless `absolute` is set
+   */
+  private async request<T>(
+    repository: TriggerRepository,
+    method: string,
+    path: string,
+    body?: unknown,
+    absolute = false
+  ): Promise<T> {
+    const base = apiBaseUrl(process.env.GITEA_URL, repository, '/api/v1');
+    const url = absolute ? `${base}${path}` : `${base}/repos/${repository.owner}/${repository.name}${path}`;
+    const token = await this.getToken(repository);
+
+    return requestJson<T>(url, {
+      method,
+      headers: token ? { Authorization: `token ${token}` } : {},
+      body
+    });
+  }
+
+  private async attempt<T>(action: string, fallback: T, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to ${action}`, { error: errorMessage });
+      return fallback;
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import type { IncomingHttpHeaders } from 'http';
+import { GitHubClient } from '../github-client';
+import { githubAuth, CommitAuthor } from '../github-auth';
+import { TriggerNormalizer } from '../trigger-normalizer';
+import { RERUN_ACTION } from '../job-checks';
+import {
+  CommentReaction,
+  GitHubCheckRunPayload,
+  GitHubWebhookPayload,
+  RepositoryPermission,
+  ReviewCommentLocation,
+  TriggerContext,
+  TriggerEvent,
+  TriggerRepository
+} from '../../types';
+import { Logger } from '../../utils/logger';
+import { GitProvider, SignatureCheck, ThreadTarget, WebhookRoute, header, matchHmacSignature } from './provider';
+
+/**
+ * GitHub repositories, through GitHubClient and the token or app installation from githubAuth
+ */
+export class GitHubProvider implements GitProvider {
+  readonly name = 'github' as const;
+  readonly tokenEnv = 'GITHUB_TOKEN';
+  readonly signsBody = true;
+
+  private githubClient: GitHubClient;
+  private triggerNormalizer: TriggerNormalizer;
+  private logger: Logger;
+
+  constructor(githubClient: GitHubClient = new GitHubClient()) {
+    this.githubClient = githubClient;
+    this.triggerNormalizer = new TriggerNormalizer(githubClient);
+    this.logger = new Logger('GitHubProvider');
+  }
+
+  isConfigured(): boolean {
+    return githubAuth.isConfigured();
+  }
+
+  describeDelivery(headers: IncomingHttpHeaders): { event?: string; deliveryId?: string } {
+    return {
+      event: header(headers, 'x-github-event'),
+      deliveryId: header(headers, 'x-github-delivery')
+    };
+  }
+
+  /**
+   * Verifies X-Hub-Signature-256, GitHub's HMAC of the exact bytes it sent
+   */
+  verifySignature(headers: IncomingHttpHeaders, rawBody: Buffer | undefined, secrets: string[]): SignatureCheck {
+    const signature = header(headers, 'x-hub-signature-256');
+    if (!signature) {
+      return { reason: 'Missing X-Hub-Signature-256 header' };
+    }
+
+    const match = /^sha256=(.*)$/i.exec(signature.trim());
+    if (!match) {
+      return { reason: 'Malformed X-Hub-Signature-256 header' };
+    }
+
+    return matchHmacSignature(match[1], rawBody, secrets, 'X-Hub-Signature-256');
+  }
+
+  async routeWebhook(event: string | undefined, body: unknown, deliveryId?: string): Promise<WebhookRoute> {
+    const payload = body as GitHubWebhookPayload;
+
+    // App installations are per repository - remember which one to mint tokens from
+    if (payload?.installation?.id && payload.repository?.full_name) {
+      githubAuth.rememberInstallation(payload.repository.full_name, payload.installation.id);
+    }
+
+    // Re-run requests from a job's check run
+    if (event === 'check_run') {
+      return this.routeCheckRun(body as GitHubCheckRunPayload);
+    }
+
+    // Only process conversation and diff review comments
+    if (event !== 'issue_comment' && event !== 'pull_request_review_comment') {
+      return { type: 'ignored', message: 'Event ignored' };
+    }
+
+    // Only process comment creation events (ignore edits and deletions)
+    if (payload.action && payload.action !== 'created') {
+      this.logger.info('Ignoring comment action', {
+        action: payload.action,
+        commentId: payload.comment?.id,
+        delivery: deliveryId
+      });
+      return { type: 'ignored', message: 'Comment action ignored' };
+    }
+
+    if (!this.isValidWebhookPayload(payload)) {
+      return { type: 'invalid', message: 'Invalid payload structure' };
+    }
+
+    return {
+      type: 'comment',
+      repository: payload.repository.full_name,
+      commentId: payload.comment!.id,
+      body: payload.comment!.body,
+      // Resolves issue vs. pull request, which takes an API call for PR conversation comments
+      normalize: () => this.triggerNormalizer.normalize(event as TriggerEvent, payload, deliveryId)
+    };
+  }
+
+  getToken(repository: TriggerRepository): Promise<string | undefined> {
+    return githubAuth.getToken(repository.owner, repository.name);
+  }
+
+  getCommitAuthor(): Promise<CommitAuthor | undefined> {
+    return githubAuth.getCommitAuthor();
+  }
+
+  pullRequestRef(number: number): string {
+    return `refs/pull/${number}/head`;
+  }
+
+  getPullRequest(repository: TriggerRepository, number: number) {
+    return this.githubClient.getPullRequest(repository.owner, repository.name, number);
+  }
+
+  createPullRequest(
+    repository: TriggerRepository,
+    options: { title: string; head: string; base: string; body: string; draft?: boolean }
+  ) {
+    return this.githubClient.createPullRequest(repository.owner, repository.name, options);
+  }
+
+  createComment(repository: TriggerRepository, target: ThreadTarget, body: string): Promise<number | null> {
+    // Pull request conversations are issues as far as comments go
+    return this.githubClient.createComment(repository.owner, repository.name, target.number, body);
+  }
+
+  replyToReviewComment(
+    repository: TriggerRepository,
+    pullNumber: number,
+    location: ReviewCommentLocation,
+    body: string
+  ): Promise<number | null> {
+    return this.githubClient.replyToReviewComment(repository.owner, repository.name, pullNumber, location.threadId, body);
+  }
+
+  updateComment(
+    repository: TriggerRepository,
+    _target: ThreadTarget,
+    commentId: number,
+    body: string,
+    review: boolean
+  ): Promise<boolean> {
+    return review
+      ? this.githubClient.updateReviewComment(repository.owner, repository.name, commentId, body)
+      : this.githubClient.updateComment(repository.owner, repository.name, commentId, body);
+  }
+
+  addReaction(trigger: TriggerContext, content: CommentReaction): Promise<number | null> {
+    const { repository, comment, reviewLocation } = trigger;
+    return this.githubClient.addReaction(repository.owner, repository.name, comment.id, content, Boolean(reviewLocation));
+  }
+
+  removeReaction(trigger: TriggerContext, reaction: { id: number; content: CommentReaction }): Promise<boolean> {
+    const { repository, comment, reviewLocation } = trigger;
+    return this.githubClient.removeReaction(repository.owner, repository.name, comment.id, reaction.id, Boolean(reviewLocation));
+  }
+
+  getPermissionLevel(repository: TriggerRepository, username: string): Promise<RepositoryPermission | null> {
+    return this.githubClient.getPermissionLevel(repository.owner, repository.name, username);
+  }
+
+  isTeamMember(repository: TriggerRepository, team: string, username: string): Promise<boolean> {
+    const [org, slug] = team.split('/');
+    if (!org || !slug) {
+      this.logger.warn('Ignoring malformed team in access policy (expected "org/team-slug")', { team });
+      return Promise.resolve(false);
+    }
+
+    // The repository selects the credentials used for the lookup
+    return this.githubClient.isTeamMember(repository.owner, repository.name, org, slug, username);
+  }
+
+  /**
+   * Turns presses of a job check's Re-run button (ours or GitHub's) into re-run requests
+   */
+  private routeCheckRun(payload: GitHubCheckRunPayload): WebhookRoute {
+    const rerunRequested = payload.action === 'rerequested' ||
+      (payload.action === 'requested_action' && payload.requested_action?.identifier === RERUN_ACTION);
+    const jobId = payload.check_run?.external_id;
+
+    if (!rerunRequested || !jobId) {
+      return { type: 'ignored', message: 'Check run event ignored' };
+    }
+
+    return { type: 'rerun', jobId, actor: payload.sender.login };
+  }
+
+  /**
+   * Validates webhook payload structure
+   */
+  private isValidWebhookPayload(payload: any): payload is GitHubWebhookPayload {
+    return payload &&
+           payload.repository &&
+           payload.repository.full_name &&
+           payload.repository.clone_url &&
+           payload.comment &&
+           payload.comment.body &&
+           payload.comment.user &&
+           payload.comment.user.login;
+  }
+}
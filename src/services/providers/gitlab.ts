@@ -0,0 +1,398 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { CommitAuthor } from '../github-auth';
+import {
+  CommentReaction,
+  GitLabNotePayload,
+  ProviderApiError,
+  RepositoryPermission,
+  ReviewCommentLocation,
+  TriggerContext,
+  TriggerRepository
+} from '../../types';
+import { Logger } from '../../utils/logger';
+import { GitProvider, SignatureCheck, ThreadTarget, WebhookRoute, apiBaseUrl, header, onConfiguredHost, requestJson } from './provider';
+
+// GitLab award emoji names for the reactions the factory uses
+const AWARD_EMOJI: Record<CommentReaction, string> = {
+  eyes: 'eyes',
+  rocket: 'rocket',
+  '+1': 'thumbsup',
+  confused: 'confused'
+};
+
+// Member access levels, highest first, and the GitHub-style role each one corresponds to
+const ACCESS_LEVELS: [number, RepositoryPermission][] = [
+  [50, 'admin'],    // owner
+  [40, 'maintain'], // maintainer
+  [30, 'write'],    // developer
+  [20, 'triage'],   // reporter
+  [10, 'read']      // guest
+];
+
+const PUBLIC_VISIBILITY = 20;
+
+/**
+ * GitLab projects, gitlab.com or self-managed, triggered by merge request and issue note events.
+ *
+ * API calls use the personal, project or group access token in GITLAB_TOKEN against GITLAB_URL,
+ * which is required with a token; the token is only used for projects cloned from that host. Merge requests are "pull requests"
+ * everywhere else in the factory, numbered by their iid.
+ */
+export class GitLabProvider implements GitProvider {
+  readonly name = 'gitlab' as const;
+  readonly tokenEnv = 'GITLAB_TOKEN';
+  // X-Gitlab-Token is the secret itself rather than a signature of the body
+  readonly signsBody = false;
+
+  private logger: Logger;
+  private userIds = new Map<string, Promise<number | null>>();
+
+  constructor() {
+    this.logger = new Logger('GitLabProvider');
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GITLAB_TOKEN && process.env.GITLAB_URL);
+  }
+
+  describeDelivery(headers: IncomingHttpHeaders): { event?: string; deliveryId?: string } {
+    return {
+      event: header(headers, 'x-gitlab-event'),
+      deliveryId: header(headers, 'x-gitlab-event-uuid')
+    };
+  }
+
+  /**
+   * Compares X-Gitlab-Token with each active secret
+   */
+  verifySignature(headers: IncomingHttpHeaders, _rawBody: Buffer | undefined, secrets: string[]): SignatureCheck {
+    const token = header(headers, 'x-gitlab-token');
+    if (!token) {
+      return { reason: 'Missing X-Gitlab-Token header' };
+    }
+
+    // Compare digests so timingSafeEqual always sees equal lengths
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    const received = digest(token);
+    const secretIndex = secrets.findIndex(secret => crypto.timingSafeEqual(digest(secret), received));
+
+    return secretIndex === -1 ? { reason: 'X-Gitlab-Token does not match any webhook secret' } : { secretIndex };
+  }
+
+  async routeWebhook(event: string | undefined, body: unknown, deliveryId?: string): Promise<WebhookRoute> {
+    const payload = body as GitLabNotePayload;
+
+    if (event !== 'Note Hook' || payload?.object_kind !== 'note') {
+      return { type: 'ignored', message: 'Event ignored' };
+    }
+
+    const note = payload.object_attributes;
+
+    // Only new comments - older GitLab versions don't send an action and only hook creation
+    if (note?.system || (note?.action && note.action !== 'create')) {
+      this.logger.info('Ignoring note action', { action: note.action, noteId: note.id, delivery: deliveryId });
+      return { type: 'ignored', message: 'Comment action ignored' };
+    }
+
+    if (!this.isValidNotePayload(payload)) {
+      return { type: 'invalid', message: 'Invalid payload structure' };
+    }
+
+    const onMergeRequest = note.noteable_type === 'MergeRequest' && payload.merge_request;
+    const onIssue = note.noteable_type === 'Issue' && payload.issue;
+    if (!onMergeRequest && !onIssue) {
+      return { type: 'ignored', message: 'Only merge request and issue notes are handled' };
+    }
+
+    return {
+      type: 'comment',
+      repository: payload.project.path_with_namespace,
+      commentId: note.id,
+      body: note.note,
+      normalize: () => this.normalize(payload, deliveryId)
+    };
+  }
+
+  getToken(repository: TriggerRepository): Promise<string | undefined> {
+    return Promise.resolve(onConfiguredHost(process.env.GITLAB_URL, repository) ? process.env.GITLAB_TOKEN : undefined);
+  }
+
+  getCommitAuthor(): Promise<CommitAuthor | undefined> {
+    return Promise.resolve(undefined);
+  }
+
+  pullRequestRef(number: number): string {
+    return `refs/merge-requests/${number}/head`;
+  }
+
+  async getPullRequest(repository: TriggerRepository, number: number) {
+    return this.attempt(`fetch merge request ${repository.fullName}!${number}`, null, async () => {
+      const data = await this.request<{
+        source_branch: string;
+        sha: string;
+        target_branch: string;
+        source_project_id: number;
+        target_project_id: number;
+      }>(repository, 'GET', `/merge_requests/${number}`);
+
+      // Merge requests from a fork have their source branch in another project
+      const headRepository = data.source_project_id === data.target_project_id
+        ? repository.fullName
+        : (await this.request<{ path_with_namespace: string }>(repository, 'GET', `/projects/${data.source_project_id}`, undefined, true))
+          .path_with_namespace;
+      return { headRef: data.source_branch, headSha: data.sha, baseRef: data.target_branch, headRepository };
+    });
+  }
+
+  async createPullRequest(
+    repository: TriggerRepository,
+    options: { title: string; head: string; base: string; body: string; draft?: boolean }
+  ) {
+    return this.attempt('open merge request', null, async () => {
+      const data = await this.request<{ iid: number; web_url: string }>(repository, 'POST', '/merge_requests', {
+        source_branch: options.head,
+        target_branch: options.base,
+        title: options.draft ? `Draft: ${options.title}` : options.title,
+        description: options.body
+      });
+      this.logger.info(`Opened merge request ${repository.fullName}!${data.iid}`, {
+        head: options.head,
+        base: options.base,
+        draft: options.draft
+      });
+      return { number: data.iid, url: data.web_url };
+    });
+  }
+
+  async createComment(repository: TriggerRepository, target: ThreadTarget, body: string): Promise<number | null> {
+    return this.attempt('post note to GitLab', null, async () => {
+      const data = await this.request<{ id: number }>(repository, 'POST', `${threadPath(target)}/notes`, { body });
+      this.logger.info(`Posted note to ${repository.fullName}${threadLabel(target)}`);
+      return data.id;
+    });
+  }
+
+  async replyToReviewComment(
+    repository: TriggerRepository,
+    pullNumber: number,
+    location: ReviewCommentLocation,
+    body: string
+  ): Promise<number | null> {
+    const target: ThreadTarget = { type: 'pull_request', number: pullNumber };
+    if (!location.discussionId) {
+      return this.createComment(repository, target, body);
+    }
+
+    return this.attempt('reply to discussion', null, async () => {
+      const data = await this.request<{ id: number }>(
+        repository, 'POST', `${threadPath(target)}/discussions/${location.discussionId}/notes`, { body }
+      );
+      return data.id;
+    });
+  }
+
+  async updateComment(repository: TriggerRepository, target: ThreadTarget, commentId: number, body: string): Promise<boolean> {
+    // Discussion replies are notes like any other
+    return this.attempt(`update note ${commentId} on ${repository.fullName}`, false, async () => {
+      await this.request(repository, 'PUT', `${threadPath(target)}/notes/${commentId}`, { body });
+      return true;
+    });
+  }
+
+  async addReaction(trigger: TriggerContext, content: CommentReaction): Promise<number | null> {
+    const { repository, target, comment } = trigger;
+    return this.attempt(`award emoji on note ${comment.id}`, null, async () => {
+      const data = await this.request<{ id: number }>(
+        repository, 'POST', `${threadPath(target)}/notes/${comment.id}/award_emoji`, { name: AWARD_EMOJI[content] }
+      );
+      return data.id;
+    });
+  }
+
+  async removeReaction(trigger: TriggerContext, reaction: { id: number; content: CommentReaction }): Promise<boolean> {
+    const { repository, target, comment } = trigger;
+    return this.attempt(`remove award emoji ${reaction.id} from note ${comment.id}`, false, async () => {
+      await this.request(repository, 'DELETE', `${threadPath(target)}/notes/${comment.id}/award_emoji/${reaction.id}`);
+      return true;
+    });
+  }
+
+  async getPermissionLevel(repository: TriggerRepository, username: string): Promise<RepositoryPermission | null> {
+    const userId = await this.getUserId(repository, username);
+    if (userId === null) return null;
+
+    // members/all includes access inherited from parent groups
+    const member = await this.memberOrNull(repository, `/projects/${encodeURIComponent(repository.fullName)}/members/all/${userId}`);
+    const level = ACCESS_LEVELS.find(([accessLevel]) => (member?.access_level ?? 0) >= accessLevel);
+    return level ? level[1] : null;
+  }
+
+  /**
+   * Teams are GitLab groups, given by their full path (e.g. "acme/backend")
+   */
+  async isTeamMember(repository: TriggerRepository, team: string, username: string): Promise<boolean> {
+    const userId = await this.getUserId(repository, username);
+    if (userId === null) return false;
+
+    const member = await this.memberOrNull(repository, `/groups/${encodeURIComponent(team)}/members/all/${userId}`);
+    return member !== null;
+  }
+
+  private async normalize(payload: GitLabNotePayload, deliveryId?: string): Promise<TriggerContext> {
+    const { project, object_attributes: note, merge_request: mergeRequest, issue } = payload;
+    const segments = project.path_with_namespace.split('/');
+
+    const repository: TriggerRepository = {
+      provider: 'gitlab',
+      fullName: project.path_with_namespace,
+      owner: segments.slice(0, -1).join('/'), // the namespace, which may be a nested group
+      name: segments[segments.length - 1],
+      cloneUrl: project.git_http_url,
+      private: project.visibility_level !== PUBLIC_VISIBILITY,
+      defaultBranch: project.default_branch
+    };
+
+    const comment = { id: note.id, body: note.note, author: payload.user.username };
+
+    if (note.noteable_type === 'Issue' && issue) {
+      return {
+        event: 'issue_comment',
+        deliveryId,
+        repository,
+        target: { type: 'issue', number: issue.iid, title: issue.title || `Issue #${issue.iid}`, body: issue.description || '' },
+        comment
+      };
+    }
+
+    // Note payloads carry the source branch but only sometimes the head commit and source project
+    const sourceProject = mergeRequest!.source_project_id === project.id
+      ? project.path_with_namespace
+      : mergeRequest!.source?.path_with_namespace;
+    const head = mergeRequest!.last_commit?.id && sourceProject
+      ? {
+        headRef: mergeRequest!.source_branch,
+        headSha: mergeRequest!.last_commit.id,
+        baseRef: mergeRequest!.target_branch,
+        headRepository: sourceProject
+      }
+      : await this.getPullRequest(repository, mergeRequest!.iid);
+    if (!head) {
+      throw new Error(`Unable to resolve merge request ${project.path_with_namespace}!${mergeRequest!.iid}`);
+    }
+
+    const reviewLocation = this.extractReviewLocation(payload);
+    return {
+      event: reviewLocation ? 'pull_request_review_comment' : 'issue_comment',
+      deliveryId,
+      repository,
+      target: { type: 'pull_request', number: mergeRequest!.iid, ...head },
+      comment,
+      reviewLocation
+    };
+  }
+
+  /**
+   * The file and lines of a comment on the merge request diff
+   */
+  private extractReviewLocation(payload: GitLabNotePayload): ReviewCommentLocation | undefined {
+    const note = payload.object_attributes;
+    const position = note.position;
+    if (note.type !== 'DiffNote' || !position) {
+      return undefined;
+    }
+
+    const path = position.new_path ?? position.old_path;
+    if (!path) {
+      this.logger.warn('Diff note payload missing file path', { noteId: note.id });
+      return undefined;
+    }
+
+    const endLine = position.new_line ?? position.old_line ?? null;
+    const start = position.line_range?.start;
+    return {
+      commentId: note.id,
+      threadId: note.id,
+      path,
+      startLine: start?.new_line ?? start?.old_line ?? endLine,
+      endLine,
+      // Only some GitLab versions include the diff; the prompt copes without it
+      diffHunk: note.st_diff?.diff ?? '',
+      discussionId: note.discussion_id
+    };
+  }
+
+  private isValidNotePayload(payload: any): payload is GitLabNotePayload {
+    return payload &&
+           payload.project &&
+           payload.project.path_with_namespace &&
+           payload.project.git_http_url &&
+           payload.object_attributes &&
+           payload.object_attributes.note &&
+           payload.user &&
+           payload.user.username;
+  }
+
+  private getUserId(repository: TriggerRepository, username: string): Promise<number | null> {
+    const key = username.toLowerCase();
+    const cached = this.userIds.get(key);
+    if (cached) return cached;
+
+    const lookup = this.request<{ id: number }[]>(repository, 'GET', `/users?username=${encodeURIComponent(username)}`, undefined, true)
+      .then(users => users[0]?.id ?? null);
+    this.userIds.set(key, lookup);
+    lookup.catch(() => this.userIds.delete(key));
+    return lookup;
+  }
+
+  // GitLab answers 404 for non-members
+  private async memberOrNull(repository: TriggerRepository, path: string): Promise<{ access_level: number } | null> {
+    try {
+      return await this.request<{ access_level: number }>(repository, 'GET', path, undefined, true);
+    } catch (error) {
+      if (error instanceof ProviderApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Calls the API, relative to the project unless `absolute` is set
+   */
+  private async request<T>(
+    repository: TriggerRepository,
+    method: string,
+    path: string,
+    body?: unknown,
+    absolute = false
+  ): Promise<T> {
+    const base = apiBaseUrl(process.env.GITLAB_URL, repository, '/api/v4');
+    const url = absolute ? `${base}${path}` : `${base}/projects/${encodeURIComponent(repository.fullName)}${path}`;
+    const token = await this.getToken(repository);
+
+    return requestJson<T>(url, {
+      method,
+      headers: token ? { 'PRIVATE-TOKEN': token } : {},
+      body
+    });
+  }
+
+  private async attempt<T>(action: string, fallback: T, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to ${action}`, { error: errorMessage });
+      return fallback;
+    }
+  }
+}
+
+function threadPath(target: ThreadTarget): string {
+  return `/${target.type === 'pull_request' ? 'merge_requests' : 'issues'}/${target.number}`;
+}
+
+function threadLabel(target: ThreadTarget): string {
+  return `${target.type === 'pull_request' ? '!' : '#'}${target.number}`;
+}
@@ -0,0 +1,49 @@
+import type { IncomingHttpHeaders } from 'http';
+import { ProviderName, TriggerRepository } from '../../types';
+import { GitProvider } from './provider';
+import { GitHubProvider } from './github';
+import { GitLabProvider } from './gitlab';
+import { GiteaProvider } from './gitea';
+
+export type { GitProvider, ThreadTarget, WebhookRoute } from './provider';
+
+const providers: Record<ProviderName, GitProvider> = {
+  github: new GitHubProvider(),
+  gitlab: new GitLabProvider(),
+  gitea: new GiteaProvider()
+};
+
+/**
+ * The provider by name - GitHub when none is given
+ */
+export function getProvider(name: ProviderName = 'github'): GitProvider {
+  return providers[name];
+}
+
+/**
+ * The provider hosting a repository; jobs recorded before providers existed are GitHub's
+ */
+export function providerFor(repository: TriggerRepository): GitProvider {
+  return getProvider(repository.provider);
+}
+
+/**
+ * Works out which provider sent a delivery from its headers.
+ * Gitea also sends X-GitHub-* headers for compatibility, so it is checked first.
+ */
+export function detectProvider(headers: IncomingHttpHeaders): GitProvider {
+  if (headers['x-gitea-event']) {
+    return providers.gitea;
+  }
+  if (headers['x-gitlab-event']) {
+    return providers.gitlab;
+  }
+  return providers.github;
+}
+
+/**
+ * Providers with credentials configured
+ */
+export function configuredProviders(): ProviderName[] {
+  return (Object.keys(providers) as ProviderName[]).filter(name => providers[name].isConfigured());
+}
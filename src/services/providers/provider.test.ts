@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { onConfiguredHost } from './provider';
+import { GitHubProvider } from './github';
+import { GitLabProvider } from './gitlab';
+import { GiteaProvider } from './gitea';
+import { detectProvider } from '.';
+import { TriggerRepository } from '../../types';
+
+// The GitHub provider reaches the queue through check runs; keep it off a real Redis
+jest.mock('../queue', () => {
+  const RedisMock = require('ioredis-mock');
+  return { redis: new RedisMock() };
+});
+
+function repository(cloneUrl: string): TriggerRepository {
+  return { fullName: 'acme/widgets', owner: 'acme', name: 'widgets', cloneUrl, private: true };
+}
+
+describe('self-hosted provider tokens', () => {
+  afterEach(() => {
+    for (const name of ['GITLAB_TOKEN', 'GITLAB_URL', 'GITEA_TOKEN', 'GITEA_URL']) {
+      delete process.env[name];
+    }
+  });
+
+  it('matches repositories by the origin of the configured URL', () => {
+    expect(onConfiguredHost('https://git.acme.dev/gitlab/', repository('https://git.acme.dev/acme/widgets.git'))).toBe(true);
+    expect(onConfiguredHost('https://git.acme.dev', repository('https://git.acme.dev.evil.com/acme/widgets.git'))).toBe(false);
+    expect(onConfiguredHost('https://git.acme.dev', repository('http://git.acme.dev/acme/widgets.git'))).toBe(false);
+    expect(onConfiguredHost(undefined, repository('https://git.acme.dev/acme/widgets.git'))).toBe(false);
+  });
+
+  it.each([
+    ['GitLab', new GitLabProvider(), 'GITLAB_TOKEN', 'GITLAB_URL'],
+    ['Gitea', new GiteaProvider(), 'GITEA_TOKEN', 'GITEA_URL']
+  ] as const)('only hands out the %s token for its own host', async (_name, provider, tokenEnv, urlEnv) => {
+    process.env[tokenEnv] = 'secret-token';
+    expect(provider.isConfigured()).toBe(false);
+    await expect(provider.getToken(repository('https://git.acme.dev/acme/widgets.git'))).resolves.toBeUndefined();
+
+    process.env[urlEnv] = 'https://git.acme.dev';
+    expect(provider.isConfigured()).toBe(true);
+    await expect(provider.getToken(repository('https://git.acme.dev/acme/widgets.git'))).resolves.toBe('secret-token');
+    await expect(provider.getToken(repository('https://attacker.example/acme/widgets.git'))).resolves.toBeUndefined();
+  });
+});
+
+describe('webhook signatures', () => {
+  // Signatures cover the exact bytes sent, so the fixture is signed as stored rather than re-serialized
+  const rawBody = readFileSync(path.join(__dirname, '..', '__fixtures__', 'webhooks', 'issue-comment-issue.json'));
+  const sign = (secret: string, body: Buffer = rawBody) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+  const github = new GitHubProvider();
+  const gitea = new GiteaProvider();
+  const gitlab = new GitLabProvider();
+
+  it('accepts a GitHub signature from any active secret and reports which one', () => {
+    const secrets = ['new-secret', 'old-secret'];
+
+    expect(github.verifySignature({ 'x-hub-signature-256': `sha256=${sign('new-secret')}` }, rawBody, secrets))
+      .toEqual({ secretIndex: 0 });
+    expect(github.verifySignature({ 'x-hub-signature-256': `sha256=${sign('old-secret')}` }, rawBody, secrets))
+      .toEqual({ secretIndex: 1 });
+  });
+
+  it('rejects a signature over re-serialized JSON', () => {
+    const reserialized = Buffer.from(JSON.stringify(JSON.parse(rawBody.toString('utf-8'))));
+
+    expect(github.verifySignature({ 'x-hub-signature-256': `sha256=${sign('secret', reserialized)}` }, rawBody, ['secret']))
+      .toEqual({ reason: 'Signature does not match any webhook secret' });
+  });
+
+  it.each([
+    [{}, 'Missing X-Hub-Signature-256 header'],
+    [{ 'x-hub-signature-256': 'sha1=abc' }, 'Malformed X-Hub-Signature-256 header'],
+    [{ 'x-hub-signature-256': 'sha256=not-hex' }, 'Malformed X-Hub-Signature-256 header'],
+    [{ 'x-hub-signature-256': `sha256=${'0'.repeat(64)}` }, 'Signature does not match any webhook secret']
+  ])('rejects GitHub headers %j', (headers, reason) => {
+    expect(github.verifySignature(headers, rawBody, ['secret'])).toEqual({ reason });
+  });
+
+  it('needs the raw body to check a signature', () => {
+    expect(github.verifySignature({ 'x-hub-signature-256': `sha256=${sign('secret')}` }, undefined, ['secret']))
+      .toEqual({ reason: 'Missing or non-JSON request body' });
+  });
+
+  it('checks Gitea signatures, which have no prefix', () => {
+    expect(gitea.verifySignature({ 'x-gitea-signature': sign('secret') }, rawBody, ['secret'])).toEqual({ secretIndex: 0 });
+    expect(gitea.verifySignature({ 'x-gitea-signature': sign('other') }, rawBody, ['secret']))
+      .toEqual({ reason: 'Signature does not match any webhook secret' });
+  });
+
+  it('compares the GitLab token with each secret', () => {
+    expect(gitlab.verifySignature({ 'x-gitlab-token': 'old-secret' }, undefined, ['new-secret', 'old-secret']))
+      .toEqual({ secretIndex: 1 });
+    expect(gitlab.verifySignature({ 'x-gitlab-token': 'guess' }, undefined, ['new-secret']))
+      .toEqual({ reason: 'X-Gitlab-Token does not match any webhook secret' });
+  });
+
+  it('tells Gitea apart from GitHub even though it sends GitHub headers too', () => {
+    expect(detectProvider({ 'x-gitea-event': 'issue_comment', 'x-github-event': 'issue_comment' }).name).toBe('gitea');
+    expect(detectProvider({ 'x-gitlab-event': 'Note Hook' }).name).toBe('gitlab');
+    expect(detectProvider({ 'x-github-event': 'issue_comment' }).name).toBe('github');
+  });
+});
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { CommitAuthor } from '../github-auth';
+import {
+  CommentReaction,
+  ProviderApiError,
+  ProviderName,
+  RepositoryPermission,
+  ReviewCommentLocation,
+  TriggerContext,
+  TriggerRepository
+} from '../../types';
+
+// The issue or pull request a comment is posted on
+export interface ThreadTarget {
+  type: 'pull_request' | 'issue';
+  number: number;
+}
+
+export type SignatureCheck = { secretIndex: number } | { reason: string };
+
+// What a verified delivery asks the factory to do
+export type WebhookRoute =
+  | { type: 'ignored'; message: string }
+  | { type: 'invalid'; message: string }
+  // A new comment - normalizing may call the provider's API, so it waits until the comment has been claimed
+  | { type: 'comment'; repository: string; commentId: number; body: string; normalize: () => Promise<TriggerContext> }
+  // A request to run a previous job again, e.g. from a GitHub check run
+  | { type: 'rerun'; jobId: string; actor: string };
+
+/**
+ * Everything the factory needs from a code host: reading its webhooks, authenticating
+ * git and API calls, and talking back on issues and pull requests.
+ *
+ * Methods that call the API never throw - they log and return null or false, like GitHubClient.
+ */
+export interface GitProvider {
+  readonly name: ProviderName;
+  // Environment variable tools run by Gemini read the repository token from
+  readonly tokenEnv: string;
+  // Whether the webhook signature covers the body; a shared token header can't be checked again on replay
+  readonly signsBody: boolean;
+
+  /**
+   * Whether credentials for this provider are configured
+   */
+  isConfigured(): boolean;
+
+  /**
+   * The event name and delivery id from the delivery's headers
+   */
+  describeDelivery(headers: IncomingHttpHeaders): { event?: string; deliveryId?: string };
+
+  /**
+   * Checks the delivery against each active webhook secret
+   */
+  verifySignature(headers: IncomingHttpHeaders, rawBody: Buffer | undefined, secrets: string[]): SignatureCheck;
+
+  /**
+   * Works out what a verified delivery asks for
+   */
+  routeWebhook(event: string | undefined, payload: unknown, deliveryId?: string): Promise<WebhookRoute>;
+
+  /**
+   * Token for git and API calls on the repository
+   */
+  getToken(repository: TriggerRepository): Promise<string | undefined>;
+
+  /**
+   * Author for the factory's commits, or undefined to use the host's git identity
+   */
+  getCommitAuthor(): Promise<CommitAuthor | undefined>;
+
+  /**
+   * Ref that pull request heads can be fetched from, including those on forks
+   */
+  pullRequestRef(number: number): string;
+
+  getPullRequest(
+    repository: TriggerRepository,
+    number: number
+  ): Promise<{ headRef: string; headSha: string; baseRef: string; headRepository: string | null } | null>;
+
+  createPullRequest(
+    repository: TriggerRepository,
+    options: { title: string; head: string; base: string; body: string; draft?: boolean }
+  ): Promise<{ number: number; url: string } | null>;
+
+  /**
+   * Posts a comment on an issue or pull request, returning its id
+   */
+  createComment(repository: TriggerRepository, target: ThreadTarget, body: string): Promise<number | null>;
+
+  /**
+   * Replies in the thread of a comment on the diff, returning the reply id
+   */
+  replyToReviewComment(repository: TriggerRepository, pullNumber: number, location: ReviewCommentLocation, body: string): Promise<number | null>;
+
+  /**
+   * Replaces the body of a comment posted with createComment or, with `review`, replyToReviewComment
+   */
+  updateComment(repository: TriggerRepository, target: ThreadTarget, commentId: number, body: string, review: boolean): Promise<boolean>;
+
+  /**
+   * Reacts to the triggering comment, returning an id to remove the reaction with
+   */
+  addReaction(trigger: TriggerContext, content: CommentReaction): Promise<number | null>;
+
+  removeReaction(trigger: TriggerContext, reaction: { id: number; content: CommentReaction }): Promise<boolean>;
+
+  /**
+   * The user's role on the repository, or null if they have none. Throws when it can't be read.
+   */
+  getPermissionLevel(repository: TriggerRepository, username: string): Promise<RepositoryPermission | null>;
+
+  /**
+   * Whether the user belongs to a team, in the provider's own notation (e.g. "org/team-slug" or a group path).
+   * Throws when membership can't be checked.
+   */
+  isTeamMember(repository: TriggerRepository, team: string, username: string): Promise<boolean>;
+}
+
+/**
+ * Finds the secret whose HMAC-SHA256 of the raw body matches a hex signature
+ */
+export function matchHmacSignature(signature: string, rawBody: Buffer | undefined, secrets: string[], headerName: string): SignatureCheck {
+  const match = /^([0-9a-f]{64})$/i.exec(signature.trim());
+  if (!match) {
+    return { reason: `Malformed ${headerName} header` };
+  }
+
+  // Only JSON deliveries are captured; form-encoded payloads aren't supported
+  if (!rawBody) {
+    return { reason: 'Missing or non-JSON request body' };
+  }
+
+  // Both sides are 32-byte digests, so timingSafeEqual never sees a length mismatch
+  const received = Buffer.from(match[1], 'hex');
+  const secretIndex = secrets.findIndex(secret =>
+    crypto.timingSafeEqual(crypto.createHmac('sha256', secret).update(rawBody).digest(), received)
+  );
+
+  return secretIndex === -1 ? { reason: 'Signature does not match any webhook secret' } : { secretIndex };
+}
+
+/**
+ * Whether the repository is cloned from the provider's configured URL. A self-hosted provider's token
+ * is only used there, never on a host named in a webhook payload.
+ */
+export function onConfiguredHost(configured: string | undefined, repository: TriggerRepository): boolean {
+  if (!configured) return false;
+  try {
+    return new URL(configured).origin === new URL(repository.cloneUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Base URL of a self-hosted provider's API: the configured URL, or the host the repository is cloned from.
+ * Tokens are withheld from the latter, see onConfiguredHost.
+ */
+export function apiBaseUrl(configured: string | undefined, repository: TriggerRepository, apiPath: string): string {
+  const base = configured ? configured.replace(/\/+$/, '') : new URL(repository.cloneUrl).origin;
+  return `${base}${apiPath}`;
+}
+
+/**
+ * Reads a single header value
+ */
+export function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Calls a JSON REST API, throwing ProviderApiError for error responses
+ */
+export async function requestJson<T>(
+  url: string,
+  options: { method?: string; headers: Record<string, string>; body?: unknown }
+): Promise<T> {
+  const response = await fetch(url, {
+    method: options.method ?? 'GET',
+    headers: {
+      Accept: 'application/json',
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ProviderApiError(`${options.method ?? 'GET'} ${new URL(url).pathname} failed with ${response.status}: ${detail.slice(0, 200)}`, response.status);
+  }
+
+  // Deletes and some updates answer 204 without a body
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
@@ -0,0 +1,165 @@
+import { addGeminiJob, findJobsForTarget, geminiQueue, getLaneCounts, getQueuePosition, GeminiJobData } from './queue';
+import { JobPriority, ProviderName, TriggerContext } from '../types';
+
+// An in-memory stand-in for the BullMQ queue: jobs stay pending until a test starts them
+jest.mock('bullmq', () => {
+  class Queue {
+    jobs: any[] = [];
+
+    async add(name: string, data: any, opts: any) {
+      const job: any = { id: opts.jobId, name, data, opts, timestamp: this.jobs.length, state: 'prioritized' };
+      job.getState = async () => job.state;
+      this.jobs.push(job);
+      return job;
+    }
+
+    async getJob(id: string) {
+      return this.jobs.find(job => job.id === id);
+    }
+
+    async getJobs(types: string[]) {
+      return this.jobs.filter(job => types.includes(job.state));
+    }
+  }
+
+  class QueueEvents {
+    on() {
+      return this;
+    }
+  }
+
+  return { Queue, QueueEvents };
+});
+jest.mock('ioredis', () => require('ioredis-mock'));
+jest.mock('./job-store', () => ({ isJobStoreReady: () => false, getJobStore: jest.fn() }));
+
+describe('queue lanes', () => {
+  const queued = (geminiQueue as any).jobs as { id: string; data: GeminiJobData; opts: { priority: number }; state: string }[];
+
+  beforeEach(() => {
+    queued.length = 0;
+  });
+
+  function trigger(repository: string, author: string): TriggerContext {
+    const [owner, name] = repository.split('/');
+    return {
+      event: 'issue_comment',
+      repository: { fullName: repository, owner, name, cloneUrl: `https://github.com/${repository}.git`, private: false },
+      target: { type: 'issue', number: 1, title: 'Widgets', body: '' },
+      comment: { id: 1, body: '@gemini implement it', author }
+    };
+  }
+
+  function add(repository: string, author: string, lane?: JobPriority) {
+    return addGeminiJob({
+      kind: 'implement',
+      command: { name: 'implement', args: 'it', options: { push: true } },
+      repoPath: '/tmp/repo',
+      promptFile: '/tmp/prompt.md',
+      promptHash: 'hash',
+      projectConfig: {},
+      trigger: trigger(repository, author)
+    }, { lane });
+  }
+
+  const rounds = () => queued.map(job => [job.data.trigger.repository.fullName, job.data.schedule?.round]);
+
+  it('starts every high job before any normal or low one', async () => {
+    const low = await add('acme/a', 'alice', 'low');
+    const normal = await add('acme/b', 'bob');
+    const high = await add('acme/c', 'carol', 'high');
+
+    await expect(getQueuePosition(high)).resolves.toBe(1);
+    await expect(getQueuePosition(normal)).resolves.toBe(2);
+    await expect(getQueuePosition(low)).resolves.toBe(3);
+    await expect(getLaneCounts()).resolves.toEqual({ high: 1, normal: 1, low: 1 });
+  });
+
+  it('gives each repository one job per round within a lane', async () => {
+    await add('acme/busy', 'alice');
+    await add('acme/busy', 'bob');
+    await add('acme/busy', 'carol');
+    await add('acme/quiet', 'dave');
+
+    expect(rounds()).toEqual([['acme/busy', 0], ['acme/busy', 1], ['acme/busy', 2], ['acme/quiet', 0]]);
+    await expect(getQueuePosition(queued[3].id)).resolves.toBe(2);
+  });
+
+  it('gives each requester one job per round across repositories', async () => {
+    await add('acme/a', 'alice');
+    await add('acme/b', 'Alice');
+    await add('acme/c', 'bob');
+
+    expect(rounds()).toEqual([['acme/a', 0], ['acme/b', 1], ['acme/c', 0]]);
+  });
+
+  it('keeps rounds separate per lane', async () => {
+    await add('acme/a', 'alice');
+    await add('acme/a', 'alice', 'high');
+
+    expect(rounds()).toEqual([['acme/a', 0], ['acme/a', 0]]);
+  });
+
+  it('lets newcomers join the round being served rather than an earlier one', async () => {
+    await add('acme/busy', 'alice');
+    await add('acme/busy', 'alice');
+    await add('acme/busy', 'alice');
+    // Round 0 has started, so the lane is now serving round 1
+    queued[0].state = 'active';
+
+    await add('acme/quiet', 'bob');
+
+    expect(rounds()[3]).toEqual(['acme/quiet', 1]);
+    await expect(getQueuePosition(queued[3].id)).resolves.toBe(2);
+  });
+});
+
+describe('jobs for a thread', () => {
+  const queued = (geminiQueue as any).jobs as unknown[];
+
+  beforeEach(() => {
+    queued.length = 0;
+  });
+
+  function trigger(provider: ProviderName, type: 'issue' | 'pull_request', number: number): TriggerContext {
+    return {
+      event: 'issue_comment',
+      repository: { provider, fullName: 'acme/widgets', owner: 'acme', name: 'widgets', cloneUrl: `https://${provider}.example/acme/widgets.git`, private: false },
+      target: type === 'issue'
+        ? { type, number, title: 'Widgets', body: '' }
+        : { type, number, headRef: 'feature/retry', headSha: '9f1c2e4' },
+      comment: { id: number, body: '@gemini implement it', author: 'octocat' }
+    };
+  }
+
+  async function add(target: TriggerContext) {
+    return addGeminiJob({
+      kind: 'implement',
+      command: { name: 'implement', args: 'it', options: { push: true } },
+      repoPath: '/tmp/repo',
+      promptFile: '/tmp/prompt.md',
+      promptHash: 'hash',
+      projectConfig: {},
+      trigger: target
+    });
+  }
+
+  const ids = async (target: TriggerContext) => (await findJobsForTarget(target, ['prioritized'])).map(job => job.id);
+
+  it('keeps repositories of the same name on different providers apart', async () => {
+    const github = await add(trigger('github', 'issue', 7));
+    const gitlab = await add(trigger('gitlab', 'issue', 7));
+
+    await expect(ids(trigger('gitlab', 'issue', 7))).resolves.toEqual([gitlab]);
+    await expect(ids(trigger('github', 'issue', 7))).resolves.toEqual([github]);
+    await expect(ids(trigger('gitea', 'issue', 7))).resolves.toEqual([]);
+  });
+
+  it('tells a GitLab issue from the merge request with the same number', async () => {
+    const issue = await add(trigger('gitlab', 'issue', 3));
+    const mergeRequest = await add(trigger('gitlab', 'pull_request', 3));
+
+    await expect(ids(trigger('gitlab', 'issue', 3))).resolves.toEqual([issue]);
+    await expect(ids(trigger('gitlab', 'pull_request', 3))).resolves.toEqual([mergeRequest]);
+  });
+});
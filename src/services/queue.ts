@@ -1,6 +1,10 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Job, JobType, Queue, QueueEvents } from 'bullmq';
 import Redis, { RedisOptions } from 'ioredis';
 import { Logger } from '../utils/logger';
+import { getJobStore, isJobStoreReady } from './job-store';
+import type { JobCheckUpdate } from './job-checks';
+import type { BudgetReservation } from './quota-budget';
+import { GeminiJobKind, IssueWorkBranch, JobPriority, ParsedCommand, TriggerContext } from '../types';
 
 // Redis connection configuration
 const redisConnection: RedisOptions = {
@@ -34,6 +38,21 @@ export const rateLimiter = {
   duration: 60_000,         // Per 60 seconds (1 minute)
 };
 
+// BullMQ priorities - lower numbers are processed first. Each lane spans a range of
+// priorities, one per scheduling round, so every high job runs before any normal one.
+const ROUNDS_PER_LANE = 100_000;
+const laneBase: Record<JobPriority, number> = {
+  high: 0,
+  normal: ROUNDS_PER_LANE,
+  low: 2 * ROUNDS_PER_LANE,
+};
+
+// States of jobs that haven't started yet; delayed ones are retries backing off
+const PENDING_STATES: JobType[] = ['waiting', 'prioritized', 'delayed'];
+
+// Enqueues one job at a time so concurrent triggers can't claim the same round
+let scheduling: Promise<unknown> = Promise.resolve();
+
 // Note: Rate limiting is now handled by Express middleware instead of queue-based limiting
 
 // Queue events for real-time monitoring
@@ -47,10 +66,12 @@ const logger = new Logger('GeminiQueue');
 // Queue event handlers for observability
 queueEvents.on('waiting', ({ jobId }) => {
   logger.info('Job waiting in queue', { jobId });
+  updateJobCheck(jobId, { state: 'queued' });
 });
 
 queueEvents.on('active', ({ jobId }) => {
   logger.info('Job started processing', { jobId });
+  updateJobCheck(jobId, { state: 'in_progress' });
 });
 
 queueEvents.on('completed', ({ jobId, returnvalue }) => {
@@ -58,44 +79,51 @@ queueEvents.on('completed', ({ jobId, returnvalue }) => {
     jobId, 
     result: returnvalue
   });
+  // Typed as a string, but BullMQ parses the JSON before emitting the event
+  const result: GeminiJobResult = typeof returnvalue === 'string' ? JSON.parse(returnvalue) : returnvalue;
+  updateJobCheck(jobId, { state: 'completed', result });
 });
 
 queueEvents.on('failed', ({ jobId, failedReason }) => {
   logger.error('Job failed', { jobId, error: failedReason });
+  updateJobCheck(jobId, { state: 'failed', error: failedReason });
 });
 
 queueEvents.on('stalled', ({ jobId }) => {
   logger.warn('Job stalled - may need intervention', { jobId });
 });
 
-// Pause queue when quota is exhausted
-export async function pauseQueueForQuota(resumeAt: Date): Promise<void> {
-  await geminiQueue.pause();
-  const pauseDuration = resumeAt.getTime() - Date.now();
-  
-  logger.warn('Queue paused due to quota exhaustion', {
-    resumeAt: resumeAt.toISOString(),
-    pauseDurationMs: pauseDuration
+// Mirrors a job's lifecycle onto its GitHub check run
+function updateJobCheck(jobId: string, update: JobCheckUpdate): void {
+  (async () => {
+    // Imported lazily - job-checks depends on this module
+    const { reportJobCheck } = await import('./job-checks');
+    const job = await geminiQueue.getJob(jobId);
+    if (job) {
+      await reportJobCheck(job.data, update);
+    }
+  })().catch(error => {
+    logger.error('Failed to update job check run', {
+      jobId,
+      error: error instanceof Error ? error.message : String(error)
+    });
   });
-  
-  // Auto-resume when quota resets
-  setTimeout(async () => {
-    await geminiQueue.resume();
-    logger.info('Queue resumed - quota should be reset');
-  }, pauseDuration);
 }
 
 // Get queue statistics for dashboard
 export async function getQueueStats() {
-  const [waiting, active, completed, failed] = await Promise.all([
-    geminiQueue.getWaiting(),
+  // Prioritized jobs are waiting too - BullMQ just keeps them in a separate set
+  const [waiting, active, completed, failed, lanes] = await Promise.all([
+    geminiQueue.getJobCountByTypes('waiting', 'prioritized'),
     geminiQueue.getActive(),
     geminiQueue.getCompleted(),
     geminiQueue.getFailed(),
+    getLaneCounts(),
   ]);
 
   return {
-    waiting: waiting.length,
+    waiting,
+    lanes,
     active: active.length,
     completed: completed.length,
     failed: failed.length,
@@ -103,15 +131,89 @@ export async function getQueueStats() {
   };
 }
 
+// Waiting jobs per lane, for the dashboard
+export async function getLaneCounts(): Promise<Record<JobPriority, number>> {
+  const counts: Record<JobPriority, number> = { high: 0, normal: 0, low: 0 };
+  const jobs: Job<GeminiJobData>[] = await geminiQueue.getJobs(['waiting', 'prioritized']);
+  for (const job of jobs) {
+    if (job) {
+      counts[job.data.schedule?.lane ?? 'normal']++;
+    }
+  }
+  return counts;
+}
+
+// Queue position of a job (1 = next up), or 0 once it is no longer waiting. Delayed
+// retries are placed where they will rejoin the queue once their backoff ends.
+export async function getQueuePosition(jobId: string): Promise<number> {
+  const job = await geminiQueue.getJob(jobId);
+  const state = await job?.getState();
+  if (!job || (state !== 'waiting' && state !== 'prioritized' && state !== 'delayed')) {
+    return 0;
+  }
+
+  const waiting: Job<GeminiJobData>[] = await geminiQueue.getJobs(['waiting', 'prioritized']);
+  return waiting.filter(other => other && other.id !== job.id && runsBefore(other, job)).length + 1;
+}
+
+// BullMQ takes jobs without a priority first, then the lowest priority, oldest first
+function runsBefore(a: Job, b: Job): boolean {
+  const priorityA = a.opts.priority ?? 0;
+  const priorityB = b.opts.priority ?? 0;
+  return priorityA !== priorityB ? priorityA < priorityB : a.timestamp < b.timestamp;
+}
+
+/**
+ * Picks the round for a new job in its lane. Rounds are served in order and each repository
+ * and requester gets one job per round, so a burst from one of them queues behind a single
+ * job from everyone else. Newcomers join the round currently being served.
+ */
+async function nextSchedule(lane: JobPriority, trigger: TriggerContext): Promise<JobSchedule> {
+  const pending: Job<GeminiJobData>[] = await geminiQueue.getJobs(PENDING_STATES);
+  const inLane = pending.filter(job => job?.data?.schedule?.lane === lane);
+  if (inLane.length === 0) {
+    return { lane, round: 0 };
+  }
+
+  const current = Math.min(...inLane.map(job => job.data.schedule!.round));
+  const repository = repositoryKey(trigger);
+  const requester = trigger.comment.author.toLowerCase();
+  const own = inLane.filter(job =>
+    repositoryKey(job.data.trigger) === repository || job.data.trigger.comment.author.toLowerCase() === requester
+  );
+
+  const last = Math.max(current - 1, ...own.map(job => job.data.schedule!.round));
+  return { lane, round: last + 1 };
+}
+
+function repositoryKey(trigger: TriggerContext): string {
+  return `${trigger.repository.provider ?? 'github'}:${trigger.repository.fullName}`.toLowerCase();
+}
+
+function lanePriority(schedule: JobSchedule): number {
+  return laneBase[schedule.lane] + Math.min(schedule.round, ROUNDS_PER_LANE - 1) + 1;
+}
+
+// Where a job waits: its priority lane and its round-robin turn within the lane
+export interface JobSchedule {
+  lane: JobPriority;
+  round: number;
+}
+
 // Job data interface
 export interface GeminiJobData {
+  kind: GeminiJobKind;
+  command: ParsedCommand;
   repoPath: string;
   promptFile: string;
+  promptHash: string;
   projectConfig: any;
-  payload: any;
-  env: Record<string, string | undefined>;
+  trigger: TriggerContext;
+  issueBranch?: IssueWorkBranch;
   jobId: string;
   timestamp: string;
+  schedule?: JobSchedule; // missing on jobs queued before lanes existed
+  budget?: BudgetReservation; // the budgets the run's tokens are charged to
 }
 
 // Job result interface
@@ -122,10 +224,20 @@ export interface GeminiJobResult {
   timestamp: string;
   commits: string[];
   duration: number;
+  pullRequestUrl?: string;
+  notPushed?: string; // why commits were kept on a local branch instead of pushed
+  exitCode?: number;
+  cancelledBy?: string; // set when the job was cancelled
+  timeout?: 'wall-clock' | 'idle'; // set when the run was stopped by a timeout
 }
 
-// Add job to queue with proper typing
-export async function addGeminiJob(data: Omit<GeminiJobData, 'jobId' | 'timestamp'>): Promise<string> {
+// Add job to queue in the given lane, taking its round-robin turn among the lane's repositories and users.
+// Deferred jobs wait out their delay before joining the lane.
+export async function addGeminiJob(
+  data: Omit<GeminiJobData, 'jobId' | 'timestamp' | 'schedule'>,
+  options: { lane?: JobPriority; delayMs?: number } = {}
+): Promise<string> {
+  const lane = options.lane ?? 'normal';
   const jobId = `gemini-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   
   const jobData: GeminiJobData = {
@@ -134,21 +246,91 @@ export async function addGeminiJob(data: Omit<GeminiJobData, 'jobId' | 'timestam
     timestamp: new Date().toISOString(),
   };
 
-  const job = await geminiQueue.add('process-gemini', jobData, {
-    jobId,
-    // Apply rate limiting
-    ...rateLimiter,
+  // Record history before enqueueing so worker status updates always find the row
+  if (isJobStoreReady()) {
+    try {
+      await getJobStore().recordQueued({
+        id: jobId,
+        kind: data.kind,
+        trigger: data.trigger,
+        command: data.command,
+        promptHash: data.promptHash,
+        createdAt: jobData.timestamp
+      });
+    } catch (error) {
+      logger.error('Failed to record job history', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const enqueue = scheduling.then(async () => {
+    jobData.schedule = await nextSchedule(lane, data.trigger);
+
+    // Job name carries the kind so workers and the dashboard can route on it
+    await geminiQueue.add(data.kind, jobData, {
+      jobId,
+      priority: lanePriority(jobData.schedule),
+      delay: options.delayMs,
+      // Apply rate limiting
+      ...rateLimiter,
+    });
   });
+  scheduling = enqueue.catch(() => undefined);
+
+  try {
+    await enqueue;
+  } catch (error) {
+    // The job never reached the queue - don't leave its history row waiting as queued
+    if (isJobStoreReady()) {
+      await getJobStore().markFinished(jobId, {
+        status: 'failed',
+        durationMs: 0,
+        commits: [],
+        error: `Failed to enqueue: ${error instanceof Error ? error.message : String(error)}`
+      }).catch(storeError => {
+        logger.error('Failed to record job history', {
+          jobId,
+          error: storeError instanceof Error ? storeError.message : String(storeError)
+        });
+      });
+    }
+    throw error;
+  }
 
   logger.info('Gemini job queued', {
     jobId,
-    repository: data.payload?.repository?.full_name,
-    queuePosition: await geminiQueue.getWaiting().then(jobs => jobs.length)
+    kind: data.kind,
+    repository: data.trigger.repository.fullName,
+    lane,
+    round: jobData.schedule?.round,
+    queuePosition: await getQueuePosition(jobId)
   });
 
   return jobId;
 }
 
+// Find jobs triggered from the same issue or pull request as `trigger`, newest first. Matches on the
+// provider too, and on the target type - GitLab numbers issues and merge requests separately.
+export async function findJobsForTarget(
+  trigger: TriggerContext,
+  types: JobType[]
+): Promise<Job<GeminiJobData, GeminiJobResult>[]> {
+  const jobs: Job<GeminiJobData, GeminiJobResult>[] = await geminiQueue.getJobs(types);
+  const repository = repositoryKey(trigger);
+
+  return jobs
+    .filter(job => {
+      const other = job?.data?.trigger;
+      return other !== undefined &&
+        repositoryKey(other) === repository &&
+        other.target.type === trigger.target.type &&
+        other.target.number === trigger.target.number;
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
 // Graceful shutdown
 export async function closeQueue(): Promise<void> {
   logger.info('Closing queue connections...');
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { redis } from './queue';
+import { TriggerRepository } from '../types';
+
+// Counters outlive their day long enough for jobs deferred to the next one
+const COUNTER_TTL_SECONDS = 3 * 24 * 3600;
+// Rough size of a token in characters; the Gemini CLI doesn't report usage
+const CHARS_PER_TOKEN = 4;
+
+export type BudgetScope = 'key' | 'user' | 'repository';
+export type BudgetMetric = 'requests' | 'tokens';
+
+const SCOPES: BudgetScope[] = ['key', 'user', 'repository'];
+const METRICS: BudgetMetric[] = ['requests', 'tokens'];
+
+// Whose budgets a queued job is charged to, and on which day
+export interface BudgetReservation {
+  day: string; // UTC date, e.g. 2025-01-31
+  keyId: string;
+  user: string;
+  repository: string;
+}
+
+export type BudgetDecision =
+  | { allowed: true; reservation: BudgetReservation; deferredUntil?: Date }
+  | { allowed: false; scope: BudgetScope; metric: BudgetMetric; limit: number; resetsAt: Date };
+
+export interface BudgetUsage {
+  day: string;
+  keyId: string;
+  requests: number;
+  tokens: number;
+  limits: Record<BudgetScope, Partial<Record<BudgetMetric, number>>>;
+}
+
+const counterKey = (day: string, scope: BudgetScope, id: string, metric: BudgetMetric) =>
+  `gemini-budget:${day}:${scope}:${id.toLowerCase()}:${metric}`;
+
+// Checks every counter against its limit (0 = unlimited) and, only if all have room, counts one
+// request. Keys come in (requests, tokens) pairs per scope; returns the 1-based index of the first
+// counter over its limit, or 0 once the request is counted.
+const RESERVE_SCRIPT = `
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[i])
+  if limit > 0 then
+    local used = tonumber(redis.call('GET', key) or '0')
+    local isRequests = i % 2 == 1
+    if (isRequests and used + 1 > limit) or (not isRequests and used >= limit) then
+      return i
+    end
+  end
+end
+for i, key in ipairs(KEYS) do
+  if i % 2 == 1 then
+    redis.call('INCR', key)
+  end
+  redis.call('EXPIRE', key, ARGV[#KEYS + 1])
+end
+return 0
+`;
+
+/**
+ * Daily request and token budgets for each Gemini API key, with per-user and per-repository
+ * sub-limits. Read from the environment on each call; unset or 0 means unlimited.
+ */
+function budgetLimits(): Record<BudgetScope, Partial<Record<BudgetMetric, number>>> {
+  const read = (name: string) => parseInt(process.env[name] || '0') || 0;
+  return {
+    key: { requests: read('QUOTA_DAILY_REQUESTS'), tokens: read('QUOTA_DAILY_TOKENS') },
+    user: { requests: read('QUOTA_USER_DAILY_REQUESTS'), tokens: read('QUOTA_USER_DAILY_TOKENS') },
+    repository: { requests: read('QUOTA_REPO_DAILY_REQUESTS'), tokens: read('QUOTA_REPO_DAILY_TOKENS') }
+  };
+}
+
+/**
+ * Stable, non-secret id for an API key, used in Redis keys and on /status
+ */
+export function apiKeyId(apiKey: string | undefined = process.env.GEMINI_API_KEY): string {
+  return apiKey ? crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 12) : 'default';
+}
+
+/**
+ * Counts a request against today's budgets, taking it from the first key in `keyIds` with
+ * budget left. When every key's budget is used up, the request is counted against tomorrow's
+ * instead and should be deferred until then; a user or repository over its own limit is
+ * refused until the budgets reset.
+ */
+export async function reserveBudget(
+  user: string,
+  repository: TriggerRepository,
+  keyIds: string[] = [apiKeyId()]
+): Promise<BudgetDecision> {
+  const owner = { user, repository: `${repository.provider ?? 'github'}:${repository.fullName}` };
+  const resetsAt = nextReset(new Date());
+  let refused: { scope: BudgetScope; metric: BudgetMetric; limit: number } | null = null;
+
+  for (const [day, deferredUntil] of [[utcDay(new Date()), undefined], [utcDay(resetsAt), resetsAt]] as const) {
+    for (const keyId of keyIds) {
+      const reservation: BudgetReservation = { day, keyId, ...owner };
+      refused = await tryReserve(reservation);
+      if (!refused) {
+        return { allowed: true, reservation, deferredUntil };
+      }
+
+      // Another key may have budget left, but the user's and repository's limits apply to all of them
+      if (refused.scope !== 'key') {
+        return { allowed: false, ...refused, resetsAt };
+      }
+    }
+  }
+
+  return { allowed: false, ...refused!, resetsAt };
+}
+
+/**
+ * Gives back a reserved request, e.g. when its job couldn't be queued
+ */
+export async function releaseBudget(reservation: BudgetReservation): Promise<void> {
+  const pipeline = redis.multi();
+  for (const scope of SCOPES) {
+    pipeline.decr(counterKey(reservation.day, scope, scopeId(reservation, scope), 'requests'));
+  }
+  await pipeline.exec();
+}
+
+/**
+ * Charges a finished run's tokens to today's budgets of the key, user and repository it ran for
+ */
+export async function recordTokenUsage(reservation: BudgetReservation, tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+
+  const day = utcDay(new Date());
+  const pipeline = redis.multi();
+  for (const scope of SCOPES) {
+    const key = counterKey(day, scope, scopeId(reservation, scope), 'tokens');
+    pipeline.incrby(key, tokens);
+    pipeline.expire(key, COUNTER_TTL_SECONDS);
+  }
+  await pipeline.exec();
+}
+
+/**
+ * Estimates the tokens a run used from its prompt and output
+ */
+export function estimateTokens(...texts: string[]): number {
+  return Math.ceil(texts.reduce((total, text) => total + text.length, 0) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Today's usage of an API key's budget, for /status
+ */
+export async function getBudgetUsage(keyId: string): Promise<BudgetUsage> {
+  const day = utcDay(new Date());
+  const [requests, tokens] = await redis.mget(
+    counterKey(day, 'key', keyId, 'requests'),
+    counterKey(day, 'key', keyId, 'tokens')
+  );
+
+  return {
+    day,
+    keyId,
+    requests: parseInt(requests || '0'),
+    tokens: parseInt(tokens || '0'),
+    limits: budgetLimits()
+  };
+}
+
+/**
+ * Formats the reply posted when a request is over budget
+ */
+export function formatBudgetDenial(decision: Extract<BudgetDecision, { allowed: false }>, user: string, repository: string): string {
+  const whose = decision.scope === 'user'
+    ? `@${user}'s`
+    : decision.scope === 'repository' ? `${repository}'s` : "the factory's";
+  const resetIn = Math.ceil((decision.resetsAt.getTime() - Date.now()) / (60 * 1000));
+
+  return `💸 **Gemini Agent**: Sorry, ${whose} daily Gemini budget is used up.
+
+- Limit: ${decision.limit.toLocaleString()} ${decision.metric} per day
+- Resets at: ${decision.resetsAt.toISOString()} (in ${Math.floor(resetIn / 60)}h ${resetIn % 60}m)
+
+Please try again once it resets.
+
+---
+*Gemini Coding Factory - Multi-Repository AI Development*`;
+}
+
+async function tryReserve(reservation: BudgetReservation): Promise<{ scope: BudgetScope; metric: BudgetMetric; limit: number } | null> {
+  const limits = budgetLimits();
+  const counters = SCOPES.flatMap(scope => METRICS.map(metric => ({ scope, metric, limit: limits[scope][metric] ?? 0 })));
+
+  const refused = await redis.eval(
+    RESERVE_SCRIPT,
+    counters.length,
+    ...counters.map(({ scope, metric }) => counterKey(reservation.day, scope, scopeId(reservation, scope), metric)),
+    ...counters.map(({ limit }) => limit),
+    COUNTER_TTL_SECONDS
+  ) as number;
+
+  return refused > 0 ? counters[refused - 1] : null;
+}
+
+function scopeId(reservation: BudgetReservation, scope: BudgetScope): string {
+  return scope === 'key' ? reservation.keyId : scope === 'user' ? reservation.user : reservation.repository;
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Budgets reset at midnight UTC
+function nextReset(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
@@ -0,0 +1,51 @@
+import { coolDownApiKey, pickApiKey } from './api-key-pool';
+import { apiKeyId } from './quota-budget';
+import { getQuotaState, pauseForQuota, resetQuota } from './quota-state';
+
+jest.mock('./queue', () => {
+  const RedisMock = require('ioredis-mock');
+  return { redis: new RedisMock(), geminiQueue: { pause: jest.fn(), resume: jest.fn() } };
+});
+jest.mock('./events', () => ({ emitQuotaExhausted: jest.fn(), emitQuotaRestored: jest.fn() }));
+
+describe('quota reset', () => {
+  const { redis, geminiQueue } = jest.requireMock('./queue');
+
+  beforeEach(async () => {
+    await redis.flushall();
+    process.env.GEMINI_API_KEYS = 'key-one,key-two';
+  });
+
+  afterEach(() => {
+    delete process.env.GEMINI_API_KEYS;
+  });
+
+  it('clears the pause and resumes the queue', async () => {
+    await pauseForQuota('429 from Gemini', new Date(Date.now() + 60_000));
+
+    await expect(resetQuota('admin')).resolves.toMatchObject({ reason: '429 from Gemini' });
+    await expect(getQuotaState()).resolves.toBeNull();
+    expect(geminiQueue.resume).toHaveBeenCalled();
+  });
+
+  it('puts cooling keys back into rotation', async () => {
+    await coolDownApiKey(apiKeyId('key-one'), 'quota exceeded');
+    await coolDownApiKey(apiKeyId('key-two'), 'quota exceeded');
+    // A key taken out of the pool since it cooled down
+    await coolDownApiKey(apiKeyId('key-retired'), 'quota exceeded');
+    await expect(pickApiKey()).resolves.toBeNull();
+
+    await resetQuota('admin');
+
+    await expect(pickApiKey()).resolves.toMatchObject({ id: expect.any(String) });
+    await expect(redis.keys('gemini-key-cooldown:*')).resolves.toEqual([]);
+  });
+
+  it('leaves other keys alone', async () => {
+    await redis.set('gemini-budget:2025-01-31:key:abc:requests', '3');
+
+    await resetQuota('admin');
+
+    await expect(redis.get('gemini-budget:2025-01-31:key:abc:requests')).resolves.toBe('3');
+  });
+});
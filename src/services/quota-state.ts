@@ -0,0 +1,112 @@
+import { redis, geminiQueue } from './queue';
+import { emitQuotaExhausted, emitQuotaRestored } from './events';
+import { clearApiKeyCooldowns } from './api-key-pool';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('QuotaState');
+
+const STATE_KEY = 'gemini-quota:state';
+// A pause is re-checked at least this often, so a reset or a changed resume time is noticed
+const RESUME_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Why the queue is paused for quota and until when - shared by the server, the worker and reset-quota
+export interface QuotaState {
+  reason: string;
+  pausedAt: string;
+  resumeAt: string;
+  pausedBy: string; // "quota-detection" or whoever paused it by hand
+}
+
+// Deletes the state only if it is still the pause being resumed, not a newer one
+const RESUME_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+let resumeTimer: NodeJS.Timeout | undefined;
+
+/**
+ * The current quota pause, or null when the queue isn't paused for quota
+ */
+export async function getQuotaState(): Promise<QuotaState | null> {
+  const stored = await redis.get(STATE_KEY);
+  return stored ? JSON.parse(stored) as QuotaState : null;
+}
+
+/**
+ * Pauses the queue until resumeAt and records why, so every process - and this one after a
+ * restart - sees the pause and resumes the queue on time
+ */
+export async function pauseForQuota(reason: string, resumeAt: Date, pausedBy = 'quota-detection'): Promise<QuotaState> {
+  const state: QuotaState = { reason, pausedAt: new Date().toISOString(), resumeAt: resumeAt.toISOString(), pausedBy };
+  await redis.set(STATE_KEY, JSON.stringify(state));
+  await geminiQueue.pause();
+
+  logger.warn('Queue paused due to quota exhaustion', {
+    reason,
+    pausedBy,
+    resumeAt: state.resumeAt,
+    pauseDurationMs: resumeAt.getTime() - Date.now()
+  });
+  emitQuotaExhausted(resumeAt);
+
+  scheduleQuotaResume(resumeAt);
+  return state;
+}
+
+/**
+ * Clears the quota pause and every key's cooldown, and resumes the queue, e.g. after a false positive.
+ * Returns the pause that was cleared, if there was one.
+ */
+export async function resetQuota(resetBy: string): Promise<QuotaState | null> {
+  const state = await getQuotaState();
+  // Cooling keys would be skipped, so the resumed queue would pause again straight away
+  const keysRestored = await clearApiKeyCooldowns();
+  await redis.del(STATE_KEY);
+  await geminiQueue.resume();
+
+  logger.info('Quota protection reset', { resetBy, wasPaused: Boolean(state), keysRestored });
+  emitQuotaRestored();
+  return state;
+}
+
+/**
+ * Resumes the queue once the stored pause is over, checking first at `checkAt`. Called at
+ * startup, so a pause outlives the process that started it; re-arms itself while a pause is in place.
+ */
+export function scheduleQuotaResume(checkAt: Date = new Date()): void {
+  if (resumeTimer) {
+    clearTimeout(resumeTimer);
+  }
+  const delay = Math.min(Math.max(checkAt.getTime() - Date.now(), 0), RESUME_CHECK_INTERVAL_MS);
+
+  resumeTimer = setTimeout(async () => {
+    resumeTimer = undefined;
+    try {
+      const stored = await redis.get(STATE_KEY);
+      if (!stored) return;
+
+      const state = JSON.parse(stored) as QuotaState;
+      if (Date.parse(state.resumeAt) <= Date.now()) {
+        if (await redis.eval(RESUME_SCRIPT, 1, STATE_KEY, stored)) {
+          await geminiQueue.resume();
+          logger.info('Queue resumed - quota should be reset', { pausedAt: state.pausedAt, reason: state.reason });
+          emitQuotaRestored();
+        }
+        return;
+      }
+
+      scheduleQuotaResume(new Date(state.resumeAt));
+    } catch (error) {
+      logger.error('Failed to check quota pause', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      scheduleQuotaResume(new Date(Date.now() + RESUME_CHECK_INTERVAL_MS));
+    }
+  }, delay);
+
+  // Never keep a process (e.g. reset-quota) alive just to check
+  resumeTimer.unref();
+}
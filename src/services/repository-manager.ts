@@ -1,11 +1,82 @@
-import { spawn, exec } from 'child_process';
+import { spawn, exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs/promises';
 import { Logger } from '../utils/logger';
 
 const execAsync = promisify(exec);
-
+const execFileAsync = promisify(execFile);
+
+// Tail of the pending git operations per mirror. Fetches, ref updates and worktree
+// changes on a shared mirror must not overlap, even across RepositoryManager instances.
+const repoLocks = new Map<string, Promise<unknown>>();
+
+async function withRepoLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+  const previous = repoLocks.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(operation);
+  const tail = current.catch(() => undefined);
+  repoLocks.set(key, tail);
+
+  try {
+    return await current;
+  } finally {
+    if (repoLocks.get(key) === tail) {
+      repoLocks.delete(key);
+    }
+  }
+}
+
+// Hands the token to git from the environment of the command it runs for. Configured through
+// GIT_CONFIG_* variables, so it never lands in a remote URL, the mirror's config or the process list.
+const CREDENTIAL_HELPER = '!f() { test "$1" = get && echo username=x-access-token && echo "password=$GIT_FACTORY_TOKEN"; }; f';
+
+/**
+ * Environment that makes git authenticate with the token on the host of `remoteUrl` only, and fail
+ * rather than prompt anywhere else. Only ever given to the factory's own git commands.
+ */
+function gitCredentialEnv(token?: string, remoteUrl?: string): Record<string, string> {
+  const env: Record<string, string> = {
+    GIT_TERMINAL_PROMPT: '0' // fail instead of waiting for a password that never comes
+  };
+  if (!token || !remoteUrl) return env;
+
+  // The empty helper first clears any helpers configured on the host
+  return {
+    ...env,
+    GIT_CONFIG_COUNT: '2',
+    GIT_CONFIG_KEY_0: 'credential.helper',
+    GIT_CONFIG_VALUE_0: '',
+    GIT_CONFIG_KEY_1: `credential.${new URL(remoteUrl).origin}.helper`,
+    GIT_CONFIG_VALUE_1: CREDENTIAL_HELPER,
+    GIT_FACTORY_TOKEN: token
+  };
+}
+
+/**
+ * Runs a git command that talks to the remote, authenticated with the token if one is given.
+ * The token is scoped to the host of `remoteUrl`, or of the checkout's origin when that isn't given.
+ */
+async function remoteGit(
+  args: string[],
+  options: { cwd?: string; timeout?: number },
+  githubToken?: string,
+  remoteUrl?: string
+): Promise<{ stdout: string; stderr: string }> {
+  const url = githubToken && !remoteUrl
+    ? (await execFileAsync('git', ['remote', 'get-url', 'origin'], { cwd: options.cwd })).stdout.trim()
+    : remoteUrl;
+
+  return execFileAsync('git', args, {
+    ...options,
+    env: { ...process.env, ...gitCredentialEnv(githubToken, url) }
+  });
+}
+
+/**
+ * Manages repository checkouts. Each repository is cloned once as a bare mirror under
+ * `mirrors/<owner>/<repo>.git`; every job works in its own detached `git worktree` under
+ * `worktrees/<owner>/<repo>/<name>`, so jobs on the same repository never share a checkout.
+ */
 export class RepositoryManager {
   private workspaceRoot: string;
   private logger: Logger;
@@ -16,28 +87,36 @@ export class RepositoryManager {
   }
 
   /**
-   * Sets up a repository locally - clones if it doesn't exist, fetches if it does
+   * Sets up the repository's bare mirror - clones if it doesn't exist, fetches if it does.
+   * Returns the mirror path.
    */
   async setupRepository(
     cloneUrl: string,
     fullName: string,
     githubToken?: string
   ): Promise<string> {
-    const repoPath = path.join(this.workspaceRoot, fullName);
-    
+    const mirrorPath = this.mirrorPath(fullName);
+
     try {
-      // Check if repository already exists
-      const exists = await this.repositoryExists(repoPath);
-      
-      if (exists) {
-        this.logger.info(`Repository exists, updating: ${fullName}`);
-        await this.updateRepository(repoPath);
-      } else {
-        this.logger.info(`Cloning repository: ${fullName}`);
-        await this.cloneRepository(cloneUrl, repoPath, githubToken);
-      }
+      await withRepoLock(mirrorPath, async () => {
+        // Check if the mirror already exists
+        const exists = await this.repositoryExists(mirrorPath);
+
+        if (exists) {
+          this.logger.info(`Repository exists, updating: ${fullName}`);
+          // Also scrubs tokens that older versions embedded in the remote URL
+          await execFileAsync('git', ['remote', 'set-url', 'origin', cloneUrl], { cwd: mirrorPath });
+          await this.updateRepository(mirrorPath, githubToken);
+        } else {
+          this.logger.info(`Cloning repository: ${fullName}`);
+          await this.cloneRepository(cloneUrl, mirrorPath, githubToken);
+        }
 
-      return repoPath;
+        // Keep factory scratch files out of anything we commit (shared by all worktrees)
+        await this.excludeFromGit(mirrorPath, '.gemini-prompt.txt');
+      });
+
+      return mirrorPath;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error(`Failed to setup repository ${fullName}`, { error: errorMessage });
@@ -46,11 +125,18 @@ export class RepositoryManager {
   }
 
   /**
-   * Checks if a repository exists at the given path
+   * Path of the bare mirror for a repository
    */
-  private async repositoryExists(repoPath: string): Promise<boolean> {
+  private mirrorPath(fullName: string): string {
+    return path.join(this.workspaceRoot, 'mirrors', `${fullName}.git`);
+  }
+
+  /**
+   * Checks if a bare mirror exists at the given path
+   */
+  private async repositoryExists(mirrorPath: string): Promise<boolean> {
     try {
-      await fs.access(path.join(repoPath, '.git'));
+      await fs.access(path.join(mirrorPath, 'HEAD'));
       return true;
     } catch {
       return false;
@@ -58,94 +144,143 @@ export class RepositoryManager {
   }
 
   /**
-   * Clones a repository to the specified path
+   * Clones a repository as a bare mirror with remote-tracking refs under origin/
    */
   private async cloneRepository(
     cloneUrl: string,
-    repoPath: string,
+    mirrorPath: string,
     githubToken?: string
   ): Promise<void> {
     // Ensure the parent directory exists
-    await fs.mkdir(path.dirname(repoPath), { recursive: true });
-
-    // Prepare clone URL with authentication if token is provided
-    let authenticatedUrl = cloneUrl;
-    if (githubToken && cloneUrl.includes('github.com')) {
-      authenticatedUrl = cloneUrl.replace(
-        'https://github.com/',
-        `https://${githubToken}@github.com/`
-      );
-    }
+    await fs.mkdir(path.dirname(mirrorPath), { recursive: true });
 
-    const { stdout, stderr } = await execAsync(
-      `git clone "${authenticatedUrl}" "${repoPath}"`,
-      { timeout: 300000 } // 5 minute timeout
+    const { stdout, stderr } = await remoteGit(
+      ['clone', '--bare', cloneUrl, mirrorPath],
+      { timeout: 300000 }, // 5 minute timeout
+      githubToken,
+      cloneUrl
     );
 
     this.logger.debug('Clone output:', { stdout, stderr });
+
+    // Bare clones don't track the remote - fetch branches as origin/* like a normal clone
+    await execFileAsync(
+      'git',
+      ['config', 'remote.origin.fetch', '+refs/heads/*:refs/remotes/origin/*'],
+      { cwd: mirrorPath }
+    );
+    await this.updateRepository(mirrorPath, githubToken);
+  }
+
+  /**
+   * Updates an existing mirror by fetching latest changes
+   */
+  private async updateRepository(mirrorPath: string, githubToken?: string): Promise<void> {
+    // Fetch all branches; worktrees stay on the commits they were created from
+    await remoteGit(['fetch', 'origin', '--prune'], {
+      cwd: mirrorPath,
+      timeout: 120000 // 2 minute timeout
+    }, githubToken);
+
+    // Drop bookkeeping for worktrees whose directories are gone
+    await execFileAsync('git', ['worktree', 'prune'], { cwd: mirrorPath });
+
+    this.logger.info('Repository updated successfully');
+  }
+
+  /**
+   * Creates a detached worktree for one job at the given commit, returning its path
+   */
+  private async createWorktree(mirrorPath: string, fullName: string, name: string, ref: string): Promise<string> {
+    const suffix = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const worktreePath = path.join(this.workspaceRoot, 'worktrees', fullName, `${name}-${suffix}`);
+
+    await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+    await execFileAsync('git', ['worktree', 'add', '--detach', worktreePath, ref], { cwd: mirrorPath });
+
+    this.logger.info(`Created worktree ${worktreePath} at ${ref}`);
+    return worktreePath;
   }
 
   /**
-   * Updates an existing repository by fetching latest changes
+   * Removes a job's worktree; safe to call on paths that are already gone
    */
-  private async updateRepository(repoPath: string): Promise<void> {
+  async removeWorktree(worktreePath: string): Promise<void> {
+    if (!worktreePath) return;
+
+    let mirrorPath: string;
     try {
-      // Fetch all remotes and branches
-      await execAsync('git fetch --all --prune', { 
-        cwd: repoPath,
-        timeout: 120000 // 2 minute timeout
-      });
+      mirrorPath = await this.getMirrorPath(worktreePath);
+    } catch {
+      // Not a worktree (or already removed) - nothing for git to clean up
+      await fs.rm(worktreePath, { recursive: true, force: true });
+      return;
+    }
 
-      // Reset any local changes to keep the workspace clean
-      await execAsync('git reset --hard HEAD', { cwd: repoPath });
-      
-      this.logger.info('Repository updated successfully');
+    try {
+      await withRepoLock(mirrorPath, async () => {
+        await execFileAsync('git', ['worktree', 'remove', '--force', worktreePath], { cwd: mirrorPath });
+      });
+      this.logger.info(`Removed worktree ${worktreePath}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.warn('Failed to update repository, attempting to re-clone', { error: errorMessage });
-      
-      // If update fails, remove and re-clone
-      await fs.rm(repoPath, { recursive: true, force: true });
-      throw new Error('Repository update failed, needs re-clone');
+      this.logger.warn(`Failed to remove worktree ${worktreePath}, deleting directory`, { error: errorMessage });
+      await fs.rm(worktreePath, { recursive: true, force: true });
     }
   }
 
   /**
-   * Checks out the correct branch for a pull request
+   * Resolves the mirror a worktree belongs to
+   */
+  private async getMirrorPath(worktreePath: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--git-common-dir'], { cwd: worktreePath });
+    return path.resolve(worktreePath, stdout.trim());
+  }
+
+  /**
+   * Creates a worktree at the exact head commit of a pull request, returning its path
    */
   async checkoutPRBranch(
-    repoPath: string,
+    mirrorPath: string,
+    fullName: string,
+    pullNumber: number,
     branchName: string,
-    commitSha: string
-  ): Promise<void> {
+    commitSha: string,
+    githubToken?: string,
+    pullRef: string = `refs/pull/${pullNumber}/head`
+  ): Promise<string> {
     try {
       this.logger.info(`Checking out PR branch: ${branchName} (${commitSha})`);
 
-      // Try to checkout the branch directly first
-      try {
-        await execAsync(`git checkout "${branchName}"`, { cwd: repoPath });
-      } catch {
-        // If branch doesn't exist locally, create it from the remote
-        await execAsync(
-          `git checkout -b "${branchName}" "origin/${branchName}"`,
-          { cwd: repoPath }
-        );
-      }
+      const worktreePath = await withRepoLock(mirrorPath, async () => {
+        // The pull ref also covers branches that live on forks
+        try {
+          await remoteGit(
+            ['fetch', 'origin', `+${pullRef}:refs/remotes/origin/pr/${pullNumber}`],
+            { cwd: mirrorPath, timeout: 120000 },
+            githubToken
+          );
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          this.logger.warn(`Could not fetch pull ref for #${pullNumber}, using fetched branches`, { error: errorMessage });
+        }
 
-      // Ensure we're at the exact commit from the PR
-      await execAsync(`git reset --hard "${commitSha}"`, { cwd: repoPath });
+        return this.createWorktree(mirrorPath, fullName, `pr-${pullNumber}`, commitSha);
+      });
 
       // Verify we're on the correct commit
-      const { stdout } = await execAsync('git rev-parse HEAD', { cwd: repoPath });
+      const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: worktreePath });
       const currentSha = stdout.trim();
 
       if (currentSha !== commitSha) {
+        await this.removeWorktree(worktreePath);
         throw new Error(
           `Failed to checkout correct commit. Expected: ${commitSha}, Got: ${currentSha}`
         );
       }
 
       this.logger.info(`Successfully checked out ${branchName} at ${commitSha}`);
+      return worktreePath;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error(`Failed to checkout PR branch ${branchName}`, { error: errorMessage });
@@ -153,6 +288,101 @@ export class RepositoryManager {
     }
   }
 
+  /**
+   * Creates a worktree for a new work branch at the tip of the remote base branch, returning its path.
+   * The branch itself only exists on the remote once the work is pushed.
+   */
+  async createBranchFromBase(
+    mirrorPath: string,
+    fullName: string,
+    branchName: string,
+    baseBranch: string,
+    githubToken?: string
+  ): Promise<string> {
+    try {
+      this.logger.info(`Creating branch ${branchName} from ${baseBranch}`);
+
+      const worktreePath = await withRepoLock(mirrorPath, async () => {
+        await remoteGit(['fetch', 'origin', baseBranch], {
+          cwd: mirrorPath,
+          timeout: 120000 // 2 minute timeout
+        }, githubToken);
+
+        return this.createWorktree(
+          mirrorPath,
+          fullName,
+          branchName.replace(/[^a-zA-Z0-9-]+/g, '-'),
+          `origin/${baseBranch}`
+        );
+      });
+
+      this.logger.info(`Successfully created ${branchName} from ${baseBranch}`);
+      return worktreePath;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to create branch ${branchName}`, { error: errorMessage });
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Points a local branch in the mirror at the worktree's HEAD so the work outlives the worktree
+   */
+  async saveBranch(worktreePath: string, branchName: string): Promise<void> {
+    const mirrorPath = await this.getMirrorPath(worktreePath);
+
+    await withRepoLock(mirrorPath, async () => {
+      await execFileAsync('git', ['branch', '-f', branchName, 'HEAD'], { cwd: worktreePath });
+    });
+  }
+
+  /**
+   * Resolves the remote's default branch from the mirror, falling back to main
+   */
+  async getDefaultBranch(mirrorPath: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        ['symbolic-ref', '--short', 'HEAD'],
+        { cwd: mirrorPath }
+      );
+      return stdout.trim();
+    } catch {
+      return 'main';
+    }
+  }
+
+  /**
+   * Lists commits on HEAD that are not on the given ref, oldest first
+   */
+  async getCommitsSince(repoPath: string, baseRef: string): Promise<string[]> {
+    const { stdout } = await execAsync(
+      `git rev-list --reverse "${baseRef}..HEAD"`,
+      { cwd: repoPath }
+    );
+    return stdout.trim().split('\n').filter(Boolean);
+  }
+
+  /**
+   * Adds a pattern to the repository's local exclude file
+   */
+  private async excludeFromGit(mirrorPath: string, pattern: string): Promise<void> {
+    const excludeFile = path.join(mirrorPath, 'info', 'exclude');
+
+    try {
+      const content = await fs.readFile(excludeFile, 'utf-8').catch(() => '');
+      if (content.split('\n').includes(pattern)) {
+        return;
+      }
+
+      await fs.mkdir(path.dirname(excludeFile), { recursive: true });
+      await fs.appendFile(excludeFile, `${content && !content.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to exclude ${pattern} from git`, { error: errorMessage });
+    }
+  }
+
   /**
    * Gets information about the current repository state
    */
@@ -205,11 +435,8 @@ export class RepositoryManager {
         return '';
       }
 
-      // Commit the changes
-      const { stdout } = await execAsync(
-        `git commit -m "${message.replace(/"/g, '\\"')}"`,
-        { cwd: repoPath }
-      );
+      // Commit the changes - execFile keeps user-supplied text away from the shell
+      await execFileAsync('git', ['commit', '-m', message], { cwd: repoPath });
 
       // Get the commit hash
       const { stdout: commitHash } = await execAsync(
@@ -237,30 +464,13 @@ export class RepositoryManager {
     githubToken?: string
   ): Promise<void> {
     try {
-      // If we have a GitHub token, update the remote URL to include it
-      if (githubToken) {
-        const { stdout: remoteUrl } = await execAsync(
-          'git remote get-url origin',
-          { cwd: repoPath }
-        );
-
-        if (remoteUrl.includes('github.com') && !remoteUrl.includes('@')) {
-          const authenticatedUrl = remoteUrl.trim().replace(
-            'https://github.com/',
-            `https://${githubToken}@github.com/`
-          );
-          
-          await execAsync(
-            `git remote set-url origin "${authenticatedUrl}"`,
-            { cwd: repoPath }
-          );
-        }
-      }
-
-      // Push the changes
-      await execAsync(`git push origin "${branchName}"`, { 
-        cwd: repoPath,
-        timeout: 120000 // 2 minute timeout
+      // Worktrees are detached, so push HEAD to the branch; the mirror lock keeps this off concurrent fetches
+      const mirrorPath = await this.getMirrorPath(repoPath);
+      await withRepoLock(mirrorPath, async () => {
+        await remoteGit(['push', 'origin', `HEAD:refs/heads/${branchName}`], {
+          cwd: repoPath,
+          timeout: 120000 // 2 minute timeout
+        }, githubToken);
       });
 
       this.logger.info(`Successfully pushed changes to ${branchName}`);
@@ -272,15 +482,25 @@ export class RepositoryManager {
   }
 
   /**
-   * Cleans up the workspace by removing old repositories
+   * Cleans up the workspace by removing abandoned worktrees and old legacy clones
    */
   async cleanupWorkspace(maxAge: number = 7 * 24 * 60 * 60 * 1000): Promise<void> {
     try {
-      const entries = await fs.readdir(this.workspaceRoot, { withFileTypes: true });
       const now = Date.now();
 
+      // Worktrees normally go away with their job; anything this old was left behind by a crash
+      for (const worktreePath of await this.listDirectories(path.join(this.workspaceRoot, 'worktrees'), 3)) {
+        const stats = await fs.stat(worktreePath);
+        if (now - stats.mtime.getTime() > maxAge) {
+          this.logger.info(`Cleaning up abandoned worktree: ${worktreePath}`);
+          await this.removeWorktree(worktreePath);
+        }
+      }
+
+      // Mirrors are shared and kept; other top-level directories are pre-worktree clones
+      const entries = await fs.readdir(this.workspaceRoot, { withFileTypes: true });
       for (const entry of entries) {
-        if (entry.isDirectory()) {
+        if (entry.isDirectory() && entry.name !== 'mirrors' && entry.name !== 'worktrees') {
           const dirPath = path.join(this.workspaceRoot, entry.name);
           const stats = await fs.stat(dirPath);
           
@@ -296,6 +516,23 @@ export class RepositoryManager {
     }
   }
 
+  /**
+   * Lists directories exactly `depth` levels below root (e.g. owner/repo/worktree)
+   */
+  private async listDirectories(root: string, depth: number): Promise<string[]> {
+    const entries = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+    const directories = entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(root, entry.name));
+
+    if (depth <= 1) {
+      return directories;
+    }
+
+    const nested = await Promise.all(directories.map(dir => this.listDirectories(dir, depth - 1)));
+    return nested.flat();
+  }
+
   /**
    * Gets the size of the workspace
    */
@@ -307,12 +544,15 @@ export class RepositoryManager {
       
       const [size, _] = stdout.trim().split('\t');
       
-      const entries = await fs.readdir(this.workspaceRoot, { withFileTypes: true });
-      const repositoryCount = entries.filter(entry => entry.isDirectory()).length;
+      const [mirrors, worktrees] = await Promise.all([
+        this.listDirectories(path.join(this.workspaceRoot, 'mirrors'), 2),
+        this.listDirectories(path.join(this.workspaceRoot, 'worktrees'), 3)
+      ]);
 
       return {
         totalSize: size,
-        repositoryCount,
+        repositoryCount: mirrors.length,
+        activeWorktrees: worktrees.length,
         workspacePath: this.workspaceRoot
       };
     } catch (error) {
@@ -321,8 +561,9 @@ export class RepositoryManager {
       return {
         totalSize: 'unknown',
         repositoryCount: 0,
+        activeWorktrees: 0,
         workspacePath: this.workspaceRoot
       };
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { GitHubProvider } from './providers/github';
+import { GitHubClient } from './github-client';
+import { TriggerAdmission } from './trigger-admission';
+import { TriggerContext } from '../types';
+
+jest.mock('./queue', () => {
+  const RedisMock = require('ioredis-mock');
+  return { redis: new RedisMock() };
+});
+
+// Recorded GitHub deliveries, trimmed to the fields the factory reads and a few it doesn't
+function fixture(name: string): unknown {
+  return JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', 'webhooks', `${name}.json`), 'utf8'));
+}
+
+describe('webhook fixtures through admission', () => {
+  const getPullRequest = jest.fn().mockResolvedValue({
+    headRef: 'feature/retry',
+    headSha: '9f1c2e4b7a3d5e6f8091a2b3c4d5e6f708192a3b',
+    baseRef: 'main',
+    headRepository: 'acme/widgets'
+  });
+  const provider = new GitHubProvider({ getPullRequest } as unknown as GitHubClient);
+  const admission = new TriggerAdmission();
+
+  beforeAll(() => {
+    process.env.AUTHORIZED_USERS = 'octocat';
+    process.env.GEMINI_API_KEY = 'test-key';
+  });
+
+  async function route(event: string, name: string) {
+    return provider.routeWebhook(event, fixture(name), `delivery-${name}`);
+  }
+
+  async function normalize(event: string, name: string): Promise<TriggerContext> {
+    const routed = await route(event, name);
+    if (routed.type !== 'comment') {
+      throw new Error(`Expected a comment route for ${name}, got ${routed.type}`);
+    }
+    return routed.normalize();
+  }
+
+  it('resolves a pull request conversation comment to the pull request head', async () => {
+    const trigger = await normalize('issue_comment', 'issue-comment-pull-request');
+
+    expect(getPullRequest).toHaveBeenCalledWith('acme', 'widgets', 42);
+    expect(trigger).toMatchObject({
+      event: 'issue_comment',
+      deliveryId: 'delivery-issue-comment-pull-request',
+      repository: { fullName: 'acme/widgets', owner: 'acme', name: 'widgets', private: false },
+      target: { type: 'pull_request', number: 42, headRef: 'feature/retry' },
+      comment: { id: 2034567001, author: 'octocat' }
+    });
+
+    const result = await admission.admit(trigger, { source: 'webhook' });
+    expect(result).toMatchObject({
+      admitted: true,
+      command: { name: 'implement', args: 'cap the backoff at 30 seconds', options: { model: 'gemini-2.5-pro' } },
+      priority: 'normal',
+      budget: { user: 'octocat', repository: 'github:acme/widgets' }
+    });
+  });
+
+  it('keeps an issue comment on the issue', async () => {
+    const trigger = await normalize('issue_comment', 'issue-comment-issue');
+
+    expect(trigger.target).toEqual({
+      type: 'issue',
+      number: 17,
+      title: 'Crash when the config file is empty',
+      body: 'Starting with an empty widgets.json throws a SyntaxError.'
+    });
+    await expect(admission.admit(trigger, { source: 'webhook' })).resolves.toMatchObject({
+      admitted: true,
+      command: { name: 'explain', args: 'why an empty config crashes' }
+    });
+  });
+
+  it('carries the diff location of a review comment', async () => {
+    const trigger = await normalize('pull_request_review_comment', 'pull-request-review-comment');
+
+    expect(trigger.target).toMatchObject({
+      type: 'pull_request',
+      number: 42,
+      headSha: '9f1c2e4b7a3d5e6f8091a2b3c4d5e6f708192a3b',
+      headRepository: 'acme/widgets'
+    });
+    expect(trigger.reviewLocation).toMatchObject({ commentId: 1987654321, threadId: 1987654321, path: 'src/fetch.ts', endLine: 12 });
+    await expect(admission.admit(trigger, { source: 'webhook' })).resolves.toMatchObject({
+      admitted: true,
+      command: { name: 'implement', args: 'use jitter here' }
+    });
+  });
+
+  it('ignores edited comments', async () => {
+    await expect(route('issue_comment', 'issue-comment-edited')).resolves.toEqual({
+      type: 'ignored',
+      message: 'Comment action ignored'
+    });
+  });
+
+  it('ignores events other than comments', async () => {
+    await expect(route('push', 'issue-comment-issue')).resolves.toMatchObject({ type: 'ignored' });
+  });
+
+  it('rejects a comment without a trigger and stays quiet', async () => {
+    const trigger = await normalize('issue_comment', 'issue-comment-no-trigger');
+
+    await expect(admission.admit(trigger, { source: 'webhook' })).resolves.toEqual({
+      admitted: false,
+      reason: 'Comment does not contain @gemini trigger',
+      reply: undefined
+    });
+  });
+
+  it('rejects a user outside AUTHORIZED_USERS with a reply', async () => {
+    const trigger = await normalize('issue_comment', 'issue-comment-unauthorized');
+    const result = await admission.admit(trigger, { source: 'webhook' });
+
+    expect(result.admitted).toBe(false);
+    expect(result).toMatchObject({ reply: expect.stringContaining('@drive-by') });
+  });
+});
@@ -0,0 +1,138 @@
+import { CommandParser } from './command-parser';
+import { accessPolicy } from './access-policy';
+import { providerFor } from './providers';
+import { BudgetReservation, formatBudgetDenial, reserveBudget } from './quota-budget';
+import { apiKeyIdsByPreference } from './api-key-pool';
+import { CommandParseError, JobPriority, ParsedCommand, TriggerContext } from '../types';
+import { Logger } from '../utils/logger';
+
+// How a trigger reached the factory
+export type TriggerSource = 'webhook' | 'retry' | 'check_run' | 'manual';
+
+export interface AdmissionOptions {
+  source: TriggerSource;
+  // Re-runs reuse the stored command instead of parsing the comment again
+  command?: ParsedCommand;
+  // Who asked for the run when it isn't the comment author, e.g. whoever pressed Re-run
+  actor?: string;
+}
+
+export interface AdmittedTrigger {
+  admitted: true;
+  command: ParsedCommand;
+  priority: JobPriority; // queue lane for job commands
+  // Job commands hold a request in the Gemini budgets; deferred ones wait for tomorrow's
+  budget?: BudgetReservation;
+  deferredUntil?: Date;
+}
+
+export type AdmissionResult =
+  | AdmittedTrigger
+  | { admitted: false; reason: string; reply?: string }; // reply is posted on the thread when given
+
+/**
+ * The single validation and authorization stage every trigger passes before any repository work.
+ *
+ * Checks the comment carries a well-formed command, that the repository can be accessed,
+ * and that the requester is allowed to run the command and model under the access policy.
+ * Admitted triggers get the queue lane the policy assigns, which --priority can lower (or raise, for maintainers).
+ * Job commands then reserve a request in the daily Gemini budgets; once every API key's budget
+ * is used up they are deferred to the next day, and users or repositories over their own
+ * limits are refused. Every decision is written to the audit log.
+ */
+export class TriggerAdmission {
+  private commandParser: CommandParser;
+  private audit: Logger;
+
+  constructor(commandParser: CommandParser = new CommandParser()) {
+    this.commandParser = commandParser;
+    this.audit = new Logger('TriggerAudit');
+  }
+
+  /**
+   * Decides whether the trigger may run. Never throws for a rejected trigger.
+   */
+  async admit(trigger: TriggerContext, options: AdmissionOptions): Promise<AdmissionResult> {
+    const actor = options.actor ?? trigger.comment.author;
+    let command = options.command;
+
+    const reject = (reason: string, reply?: string): AdmissionResult => {
+      this.record(trigger, options.source, actor, command, false, reason);
+      return { admitted: false, reason, reply };
+    };
+
+    if (!command) {
+      if (!this.commandParser.hasTrigger(trigger.comment.body)) {
+        return reject('Comment does not contain @gemini trigger');
+      }
+
+      try {
+        command = this.commandParser.parse(trigger.comment.body, {
+          onIssue: trigger.target.type === 'issue'
+        });
+      } catch (error) {
+        if (error instanceof CommandParseError) {
+          return reject(error.message, this.commandParser.formatHelp(error));
+        }
+        throw error;
+      }
+    }
+
+    const provider = providerFor(trigger.repository);
+    if (trigger.repository.private && !provider.isConfigured()) {
+      return reject(`Private repository requires ${provider.tokenEnv}${provider.name === 'github' ? ' or GitHub App credentials' : ''}`);
+    }
+
+    const decision = await accessPolicy.authorize(actor, trigger.repository, command);
+    if (!decision.allowed) {
+      return reject(decision.reason ?? `User ${actor} is not authorized`, accessPolicy.formatDenial(decision));
+    }
+
+    const priority = decision.priority ?? 'normal';
+    if (!this.commandParser.isJobCommand(command)) {
+      this.record(trigger, options.source, actor, command, true, undefined, priority);
+      return { admitted: true, command, priority };
+    }
+
+    const budget = await reserveBudget(actor, trigger.repository, await apiKeyIdsByPreference());
+    if (!budget.allowed) {
+      return reject(
+        `Daily ${budget.scope} budget of ${budget.limit} ${budget.metric} used up`,
+        formatBudgetDenial(budget, actor, trigger.repository.fullName)
+      );
+    }
+
+    const { reservation, deferredUntil } = budget;
+    this.record(trigger, options.source, actor, command, true, deferredUntil && `Deferred until ${deferredUntil.toISOString()}`, priority);
+    return { admitted: true, command, priority, budget: reservation, deferredUntil };
+  }
+
+  private record(
+    trigger: TriggerContext,
+    source: TriggerSource,
+    actor: string,
+    command: ParsedCommand | undefined,
+    admitted: boolean,
+    reason?: string,
+    priority?: JobPriority
+  ): void {
+    const entry = {
+      source,
+      delivery: trigger.deliveryId,
+      repository: trigger.repository.fullName,
+      target: `${trigger.target.type}#${trigger.target.number}`,
+      commentId: trigger.comment.id,
+      actor,
+      command: command?.name,
+      model: command?.options.model,
+      priority,
+      reason
+    };
+
+    if (admitted) {
+      this.audit.info('Trigger accepted', entry);
+    } else {
+      this.audit.warn('Trigger rejected', entry);
+    }
+  }
+}
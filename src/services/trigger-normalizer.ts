@@ -0,0 +1,144 @@
+import { GitHubClient } from './github-client';
+import {
+  GitHubWebhookPayload,
+  ReviewCommentLocation,
+  TriggerContext,
+  TriggerEvent
+} from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Turns raw webhook payloads into a single TriggerContext.
+ *
+ * GitHub sends `issue_comment` for both issues and pull request conversations;
+ * PR comments only carry `issue.pull_request`, so the head ref and sha have to
+ * be fetched separately before the branch can be checked out.
+ */
+export class TriggerNormalizer {
+  private githubClient: GitHubClient;
+  private logger: Logger;
+
+  constructor(githubClient: GitHubClient = new GitHubClient()) {
+    this.githubClient = githubClient;
+    this.logger = new Logger('TriggerNormalizer');
+  }
+
+  /**
+   * Normalizes a comment webhook payload into a TriggerContext
+   */
+  async normalize(
+    event: TriggerEvent,
+    payload: GitHubWebhookPayload,
+    deliveryId?: string
+  ): Promise<TriggerContext> {
+    const { repository, comment } = payload;
+
+    if (!comment) {
+      throw new Error(`${event} payload has no comment`);
+    }
+
+    const context: TriggerContext = {
+      event,
+      deliveryId,
+      repository: {
+        provider: 'github',
+        fullName: repository.full_name,
+        owner: repository.owner.login,
+        name: repository.name,
+        cloneUrl: repository.clone_url,
+        private: repository.private,
+        defaultBranch: repository.default_branch
+      },
+      target: await this.resolveTarget(payload),
+      comment: {
+        id: comment.id,
+        body: comment.body,
+        author: comment.user.login
+      },
+      reviewLocation: event === 'pull_request_review_comment'
+        ? this.extractReviewLocation(payload)
+        : undefined
+    };
+
+    this.logger.debug('Normalized trigger', {
+      event,
+      repository: context.repository.fullName,
+      target: `${context.target.type}#${context.target.number}`,
+      delivery: deliveryId
+    });
+
+    return context;
+  }
+
+  /**
+   * Works out whether the comment targets a pull request or a plain issue
+   */
+  private async resolveTarget(payload: GitHubWebhookPayload): Promise<TriggerContext['target']> {
+    const { repository, pull_request, issue } = payload;
+
+    // Review comments and manual triggers carry the pull request directly
+    if (pull_request) {
+      return {
+        type: 'pull_request',
+        number: pull_request.number,
+        headRef: pull_request.head.ref,
+        headSha: pull_request.head.sha,
+        headRepository: pull_request.head.repo?.full_name ?? null
+      };
+    }
+
+    if (!issue) {
+      throw new Error('Payload has neither a pull request nor an issue');
+    }
+
+    // PR conversation comments arrive as issue_comment with issue.pull_request set
+    if (issue.pull_request) {
+      const pullRequest = await this.githubClient.getPullRequest(
+        repository.owner.login,
+        repository.name,
+        issue.number
+      );
+
+      if (!pullRequest) {
+        throw new Error(`Unable to resolve pull request ${repository.full_name}#${issue.number}`);
+      }
+
+      return {
+        type: 'pull_request',
+        number: issue.number,
+        ...pullRequest
+      };
+    }
+
+    return {
+      type: 'issue',
+      number: issue.number,
+      title: issue.title || `Issue #${issue.number}`,
+      body: issue.body || ''
+    };
+  }
+
+  /**
+   * Extracts the file, line range and diff hunk from a review comment payload
+   */
+  private extractReviewLocation(payload: GitHubWebhookPayload): ReviewCommentLocation | undefined {
+    const comment = payload.comment;
+    if (!comment?.path || !comment.diff_hunk) {
+      this.logger.warn('Review comment payload missing diff location', { commentId: comment?.id });
+      return undefined;
+    }
+
+    // Outdated comments lose their current line, so fall back to the original position
+    const endLine = comment.line ?? comment.original_line ?? null;
+    const startLine = comment.start_line ?? comment.original_start_line ?? endLine;
+
+    return {
+      commentId: comment.id,
+      threadId: comment.in_reply_to_id ?? comment.id,
+      path: comment.path,
+      startLine,
+      endLine,
+      diffHunk: comment.diff_hunk
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { claimDelivery, completeDelivery, releaseDelivery } from './webhook-dedupe';
+
+jest.mock('./queue', () => {
+  const RedisMock = require('ioredis-mock');
+  return { redis: new RedisMock() };
+});
+
+describe('webhook dedupe', () => {
+  const { redis } = jest.requireMock('./queue');
+
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+
+  async function claim(target: Parameters<typeof claimDelivery>[0]) {
+    const claimed = await claimDelivery(target);
+    if (!('claim' in claimed)) throw new Error('expected a claim');
+    return claimed.claim;
+  }
+
+  it('reports a redelivery as in progress, then with the recorded outcome', async () => {
+    const first = await claim({ deliveryId: 'd-1', provider: 'github', repository: 'acme/widgets', commentId: 1 });
+    await expect(claimDelivery({ deliveryId: 'd-1' })).resolves.toEqual({ duplicate: { status: 'processing' } });
+
+    await completeDelivery(first, 'Job queued', 'gemini-1');
+    await expect(claimDelivery({ deliveryId: 'd-1' })).resolves.toEqual({
+      duplicate: { status: 'done', message: 'Job queued', jobId: 'gemini-1' }
+    });
+  });
+
+  it('catches the same comment arriving under a new delivery id', async () => {
+    await claim({ deliveryId: 'd-1', provider: 'github', repository: 'acme/widgets', commentId: 2 });
+
+    await expect(claimDelivery({ deliveryId: 'd-2', provider: 'github', repository: 'acme/widgets', commentId: 2 }))
+      .resolves.toEqual({ duplicate: { status: 'processing' } });
+    // Nothing was claimed for the duplicate, so its own delivery id stays free
+    await expect(redis.exists('webhook-delivery:d-2')).resolves.toBe(0);
+  });
+
+  it('lets a redelivery through after processing failed', async () => {
+    const first = await claim({ deliveryId: 'd-1', provider: 'github', repository: 'acme/widgets', commentId: 3 });
+    await releaseDelivery(first);
+
+    await expect(claimDelivery({ deliveryId: 'd-1', provider: 'github', repository: 'acme/widgets', commentId: 3 }))
+      .resolves.toHaveProperty('claim');
+  });
+
+  it('expires claims that are never completed', async () => {
+    await claim({ deliveryId: 'd-1' });
+    const ttl = await redis.ttl('webhook-delivery:d-1');
+
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(10 * 60);
+  });
+
+  it('claims nothing without a delivery id or comment', async () => {
+    await expect(claimDelivery({})).resolves.toEqual({ claim: { keys: [] } });
+  });
+
+  it('keeps the same comment id on different providers apart', async () => {
+    const github = await claimDelivery({ deliveryId: 'gh-1', provider: 'github', repository: 'acme/widgets', commentId: 7 });
+    expect('claim' in github).toBe(true);
+
+    const gitea = await claimDelivery({ deliveryId: 'gitea-1', provider: 'gitea', repository: 'acme/widgets', commentId: 7 });
+    expect('claim' in gitea).toBe(true);
+
+    const again = await claimDelivery({ deliveryId: 'gitea-2', provider: 'gitea', repository: 'ACME/Widgets', commentId: 7 });
+    expect(again).toEqual({ duplicate: { status: 'processing' } });
+  });
+
+  it('treats comments recorded without a provider as GitHub ones', async () => {
+    await completeDelivery(await claim({ repository: 'acme/widgets', commentId: 8 }), 'Job queued', 'gemini-1');
+
+    await expect(claimDelivery({ provider: 'github', repository: 'acme/widgets', commentId: 8 })).resolves.toEqual({
+      duplicate: { status: 'done', message: 'Job queued', jobId: 'gemini-1' }
+    });
+  });
+});
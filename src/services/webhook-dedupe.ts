@@ -0,0 +1,89 @@
+import { redis } from './queue';
+import { ProviderName } from '../types';
+
+// GitHub lets deliveries be redelivered for a few days; remember outcomes a little longer
+const DEDUPE_TTL_SECONDS = parseInt(process.env.WEBHOOK_DEDUPE_TTL_SECONDS || String(7 * 24 * 3600));
+// A claim that is never completed (e.g. the process died mid-request) stops blocking redeliveries after this
+const PROCESSING_TTL_SECONDS = 10 * 60;
+
+const deliveryKey = (deliveryId: string) => `webhook-delivery:${deliveryId}`;
+// Comment ids are only unique per provider, and the same repository name can exist on several
+const commentKey = (provider: ProviderName, repository: string, commentId: number) =>
+  `webhook-comment:${provider}:${repository.toLowerCase()}:${commentId}`;
+
+// What a delivery led to, returned again for replays
+export type DeliveryOutcome =
+  | { status: 'processing' }
+  | { status: 'done'; message: string; jobId?: string };
+
+export interface DeliveryClaim {
+  keys: string[];
+}
+
+// Returns the first existing entry, or claims every key at once - so a delivery and its
+// comment can't be claimed by two requests racing on different instances
+const CLAIM_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  local existing = redis.call('GET', key)
+  if existing then return existing end
+end
+for _, key in ipairs(KEYS) do
+  redis.call('SET', key, ARGV[1], 'EX', ARGV[2])
+end
+return false
+`;
+
+/**
+ * Claims a delivery by its delivery id and, for comments, by provider, repository and comment id.
+ * Returns the claim, or the recorded outcome if the delivery or comment was seen before.
+ */
+export async function claimDelivery(target: {
+  deliveryId?: string;
+  provider?: ProviderName;
+  repository?: string;
+  commentId?: number;
+}): Promise<{ claim: DeliveryClaim } | { duplicate: DeliveryOutcome }> {
+  const keys = [
+    ...(target.deliveryId ? [deliveryKey(target.deliveryId)] : []),
+    ...(target.repository && target.commentId
+      ? [commentKey(target.provider ?? 'github', target.repository, target.commentId)]
+      : [])
+  ];
+
+  if (keys.length === 0) {
+    return { claim: { keys } };
+  }
+
+  const processing: DeliveryOutcome = { status: 'processing' };
+  const existing = await redis.eval(
+    CLAIM_SCRIPT,
+    keys.length,
+    ...keys,
+    JSON.stringify(processing),
+    PROCESSING_TTL_SECONDS
+  ) as string | null;
+
+  return existing ? { duplicate: JSON.parse(existing) as DeliveryOutcome } : { claim: { keys } };
+}
+
+/**
+ * Records what the delivery led to, so replays get the same answer
+ */
+export async function completeDelivery(claim: DeliveryClaim, message: string, jobId?: string): Promise<void> {
+  if (claim.keys.length === 0) return;
+
+  const outcome: DeliveryOutcome = { status: 'done', message, jobId };
+  const pipeline = redis.multi();
+  for (const key of claim.keys) {
+    pipeline.set(key, JSON.stringify(outcome), 'EX', DEDUPE_TTL_SECONDS);
+  }
+  await pipeline.exec();
+}
+
+/**
+ * Forgets a claim whose processing failed, so GitHub's redelivery is handled afresh
+ */
+export async function releaseDelivery(claim: DeliveryClaim): Promise<void> {
+  if (claim.keys.length === 0) return;
+  await redis.del(...claim.keys);
+}
@@ -0,0 +1,59 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { WebhookServer } from './webhook-server';
+import { GeminiOrchestrator } from './orchestrator';
+
+jest.mock('./queue', () => {
+  const RedisMock = require('ioredis-mock');
+  return { redis: new RedisMock() };
+});
+
+describe('delivery inbox routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const webhookServer = new WebhookServer({} as GeminiOrchestrator, {
+      port: 0,
+      path: '/webhook',
+      secrets: ['secret'],
+      cors: { origin: [] }
+    });
+    server = webhookServer.getApp().listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    process.env.ADMIN_TOKEN = 's3cret';
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_TOKEN;
+  });
+
+  it.each(['/deliveries', '/deliveries/some-id'])('refuses %s without the admin token', async route => {
+    const response = await fetch(`${baseUrl}${route}`);
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('lists deliveries for the admin', async () => {
+    const response = await fetch(`${baseUrl}/deliveries`, { headers: { Authorization: 'Bearer s3cret' } });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ deliveries: [] });
+  });
+
+  it('keeps the inbox closed while no admin token is configured', async () => {
+    delete process.env.ADMIN_TOKEN;
+
+    const response = await fetch(`${baseUrl}/deliveries`, { headers: { Authorization: 'Bearer s3cret' } });
+    expect(response.status).toBe(503);
+  });
+});
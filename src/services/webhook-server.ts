@@ -1,36 +1,76 @@
 import express from 'express';
 import crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
-import { createServer } from 'http';
+import { createServer, IncomingHttpHeaders, IncomingMessage } from 'http';
 import { GeminiOrchestrator } from './orchestrator';
-import { GitHubWebhookPayload, WebhookServerConfig } from '../types';
+import { CommandParser } from './command-parser';
+import { GeminiJobKind, JobQuery, JobRecordStatus, ParsedCommand, TriggerContext, WebhookServerConfig } from '../types';
 import { Logger } from '../utils/logger';
-import { addGeminiJob, initializeQueue, getQueueStats } from './queue';
+import { addGeminiJob, initializeQueue, geminiQueue, getQueueStats, getQueuePosition, findJobsForTarget } from './queue';
 import { initializeSocketIO, emitJobStarted } from './events';
+import { getJobStore, isJobStoreReady, initializeJobStore, closeJobStore, JOB_RECORD_STATUSES } from './job-store';
+import { followJobLogs, hasJobLogs, readJobLogs, JobLogEntry } from './job-logs';
+import { cancelJob, CancelResult } from './job-cancellation';
+import { reportJobStatus } from './job-status';
+import { detectProvider, providerFor, GitProvider } from './providers';
+import { recordDelivery, updateDelivery, listDeliveries, getDelivery, DELIVERY_STATUSES, DeliveryQuery, DeliveryStatus, DeliveryVerification } from './delivery-inbox';
+import { claimDelivery, completeDelivery, releaseDelivery, DeliveryClaim } from './webhook-dedupe';
+import { AdmittedTrigger, TriggerAdmission } from './trigger-admission';
+import { releaseBudget } from './quota-budget';
+import { getApiKeyStatus } from './api-key-pool';
+import { getQuotaState, pauseForQuota, resetQuota, scheduleQuotaResume } from './quota-state';
+import { requireAdminToken } from './admin-auth';
+
+// Providers sign the exact bytes they send - re-serializing the parsed JSON doesn't reproduce them
+interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+// A webhook delivery as received, or as stored in the delivery inbox for replay
+interface IncomingDelivery {
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+  body: unknown;
+  remoteAddress?: string;
+  replayOf?: string;     // inbox id of the delivery being replayed
+  skipDedupe?: boolean;  // replays can be forced through even if the delivery was handled before
+  verifiedAs?: DeliveryVerification; // how a replayed delivery was verified when first received
+}
+
+interface DeliveryResult {
+  statusCode: number;
+  response: Record<string, unknown>;
+  status: DeliveryStatus;
+  verification?: DeliveryVerification;
+  verificationDetail?: string;
+}
+
+/**
+ * Splits WEBHOOK_SECRET into the active secrets - during rotation, "new,old" accepts both
+ */
+export function parseWebhookSecrets(value: string | undefined): string[] {
+  return (value || '').split(',').map(secret => secret.trim()).filter(Boolean);
+}
 
 export class WebhookServer {
   private app: express.Application;
   private httpServer: any;
   private orchestrator: GeminiOrchestrator;
+  private commandParser: CommandParser;
+  private triggerAdmission: TriggerAdmission;
   private logger: Logger;
   private config: WebhookServerConfig;
-  private processedWebhooks: Set<string>; // Add deduplication tracking
 
   constructor(orchestrator: GeminiOrchestrator, config: WebhookServerConfig) {
     this.orchestrator = orchestrator;
     this.config = config;
+    this.commandParser = new CommandParser();
+    this.triggerAdmission = new TriggerAdmission(this.commandParser);
     this.logger = new Logger('WebhookServer');
     this.app = express();
     this.httpServer = createServer(this.app);
-    this.processedWebhooks = new Set();
     this.setupMiddleware();
     this.setupRoutes();
-    
-    // Clean up processed webhooks every hour
-    setInterval(() => {
-      this.processedWebhooks.clear();
-      this.logger.debug('Cleared webhook deduplication cache');
-    }, 60 * 60 * 1000);
   }
 
   /**
@@ -50,12 +90,13 @@ export class WebhookServer {
       },
       standardHeaders: true,
       legacyHeaders: false,
-      // Use a more reliable key generator for GitHub webhooks
+      // Use a more reliable key generator for provider webhooks
       keyGenerator: (req) => {
-        // For GitHub webhooks, use the delivery ID as the key to prevent duplicates
-        const githubDelivery = req.headers['x-github-delivery'] as string;
-        if (githubDelivery) {
-          return `github-${githubDelivery}`;
+        // For provider webhooks, use the delivery ID as the key to prevent duplicates
+        const provider = detectProvider(req.headers);
+        const providerDelivery = provider.describeDelivery(req.headers).deliveryId;
+        if (providerDelivery) {
+          return `${provider.name}-${providerDelivery}`;
         }
         // Fallback to IP-based limiting
         return req.ip || req.connection.remoteAddress || 'unknown';
@@ -70,8 +111,15 @@ export class WebhookServer {
     // Apply rate limiting to webhook endpoints
     this.app.use(this.config.path, webhookRateLimit);
 
-    // Parse JSON bodies
-    this.app.use(express.json({ limit: '10mb' }));
+    // Parse JSON bodies, keeping the raw bytes of webhook deliveries for signature checks
+    this.app.use(express.json({
+      limit: '10mb',
+      verify: (req: RawBodyRequest, _res, buf) => {
+        if (req.url?.split('?')[0] === this.config.path) {
+          req.rawBody = buf;
+        }
+      }
+    }));
 
     // CORS configuration
     this.app.use((req, res, next) => {
@@ -81,7 +129,7 @@ export class WebhookServer {
         res.header('Access-Control-Allow-Origin', origin);
       }
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-GitHub-Event, X-GitHub-Delivery, X-Hub-Signature-256');
+      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-GitHub-Event, X-GitHub-Delivery, X-Hub-Signature-256, X-Gitlab-Event, X-Gitlab-Token, X-Gitea-Event, X-Gitea-Delivery, X-Gitea-Signature');
       
       if (req.method === 'OPTIONS') {
         res.sendStatus(200);
@@ -95,7 +143,9 @@ export class WebhookServer {
       this.logger.info(`${req.method} ${req.path}`, {
         userAgent: req.headers['user-agent'],
         githubEvent: req.headers['x-github-event'],
-        githubDelivery: req.headers['x-github-delivery']
+        githubDelivery: req.headers['x-github-delivery'],
+        gitlabEvent: req.headers['x-gitlab-event'],
+        giteaEvent: req.headers['x-gitea-event']
       });
       next();
     });
@@ -129,6 +179,7 @@ export class WebhookServer {
           timestamp: new Date().toISOString(),
           workspace: workspaceStats,
           queue: queueStats,
+          apiKeys: await getApiKeyStatus(),
           server: {
             uptime: process.uptime(),
             memoryUsage: process.memoryUsage(),
@@ -153,92 +204,274 @@ export class WebhookServer {
       }
     });
 
-    // Main webhook endpoint
-    this.app.post(this.config.path, async (req, res) => {
+    // Everything under /admin needs the admin token
+    this.app.use('/admin', requireAdminToken);
+
+    // Quota protection shared by every process: the pause, its reason and when it ends
+    this.app.get('/admin/quota', async (req, res) => {
       try {
-        // Verify webhook signature if secret is configured
-        if (this.config.secret) {
-          const isValid = this.verifySignature(req.body, req.headers['x-hub-signature-256'] as string);
-          if (!isValid) {
-            this.logger.warn('Invalid webhook signature', {
-              delivery: req.headers['x-github-delivery']
-            });
-            return res.status(401).json({ error: 'Invalid signature' });
-          }
+        res.json({
+          paused: await geminiQueue.isPaused(),
+          state: await getQuotaState(),
+          apiKeys: await getApiKeyStatus()
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to get quota state', { error: errorMessage });
+        res.status(500).json({ error: 'Failed to retrieve quota state' });
+      }
+    });
+
+    // Pause the queue by hand, e.g. ahead of a known quota cut: {"minutes": 60, "reason": "..."}
+    this.app.post('/admin/quota/pause', async (req, res) => {
+      const minutes = Number(req.body?.minutes);
+      if (!Number.isInteger(minutes) || minutes < 1) {
+        return res.status(400).json({ error: 'minutes must be a positive integer' });
+      }
+
+      try {
+        const state = await pauseForQuota(
+          typeof req.body?.reason === 'string' ? req.body.reason : 'Paused by hand',
+          new Date(Date.now() + minutes * 60 * 1000),
+          typeof req.body?.by === 'string' ? req.body.by : 'admin'
+        );
+        res.json({ message: 'Queue paused for quota', state });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to pause for quota', { error: errorMessage });
+        res.status(500).json({ error: 'Failed to pause the queue' });
+      }
+    });
+
+    // Clear quota protection after a false positive and resume the queue
+    this.app.post('/admin/quota/reset', async (req, res) => {
+      try {
+        const cleared = await resetQuota(typeof req.body?.by === 'string' ? req.body.by : 'admin');
+        res.json({ message: 'Quota protection reset', cleared });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to reset quota protection', { error: errorMessage });
+        res.status(500).json({ error: 'Failed to reset quota protection' });
+      }
+    });
+
+    // Job history, kept beyond BullMQ's completed/failed retention
+    this.app.get('/jobs', async (req, res) => {
+      try {
+        const query = this.parseJobQuery(req.query);
+        const jobs = await getJobStore().list(query);
+
+        res.json({
+          jobs,
+          limit: query.limit,
+          offset: query.offset
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (error instanceof RangeError) {
+          return res.status(400).json({ error: errorMessage });
         }
+        this.logger.error('Failed to list jobs', { error: errorMessage });
+        res.status(500).json({ error: 'Failed to retrieve job history' });
+      }
+    });
+
+    this.app.get('/jobs/:id', async (req, res) => {
+      try {
+        const job = await getJobStore().get(req.params.id);
+        if (!job) {
+          return res.status(404).json({ error: 'Job not found' });
+        }
+        res.json(job);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to get job', { jobId: req.params.id, error: errorMessage });
+        res.status(500).json({ error: 'Failed to retrieve job' });
+      }
+    });
 
-        const githubEvent = req.headers['x-github-event'] as string;
-        const payload: GitHubWebhookPayload = req.body;
+    // Cancel a queued or running job - job ids appear in public status comments, so this needs the admin token
+    this.app.post('/jobs/:id/cancel', requireAdminToken, async (req, res) => {
+      const jobId = req.params.id;
 
-        // Only process issue_comment events for now
-        if (githubEvent !== 'issue_comment') {
-          this.logger.debug('Ignoring non-comment event', { event: githubEvent });
-          return res.status(200).json({ message: 'Event ignored' });
+      try {
+        const result = await cancelJob(jobId, 'api');
+
+        switch (result.outcome) {
+          case 'not_found':
+            return res.status(404).json({ ...result, error: 'Job not found' });
+          case 'finished':
+            return res.status(409).json({ ...result, error: 'Job has already finished' });
+          case 'signalled':
+            return res.status(202).json(result);
+          default:
+            return res.json(result);
         }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to cancel job', { jobId, error: errorMessage });
+        res.status(500).json({ error: 'Failed to cancel job' });
+      }
+    });
 
-        // Only process comment creation events (ignore edits and deletions)
-        if (payload.action && payload.action !== 'created') {
-          this.logger.info('Ignoring comment action', { 
-            action: payload.action,
-            commentId: payload.comment?.id,
-            delivery: req.headers['x-github-delivery']
-          });
-          return res.status(200).json({ message: 'Comment action ignored' });
+    // Job log lines by sequence number: ?from=&to= for a range, ?follow=true to stream (SSE)
+    this.app.get('/jobs/:id/logs', async (req, res) => {
+      const jobId = req.params.id;
+
+      try {
+        const resumeFrom = Number(req.headers['last-event-id']) + 1 || undefined;
+        const from = resumeFrom ?? this.parseSeq(req.query.from) ?? 1;
+        const to = this.parseSeq(req.query.to);
+        const follow = req.query.follow === 'true' || req.query.follow === '1';
+
+        if (await hasJobLogs(jobId)) {
+          if (follow) {
+            return this.streamJobLogs(req, res, jobId, from, to);
+          }
+          return res.json({ jobId, source: 'stream', entries: await readJobLogs(jobId, from, to) });
         }
 
-        // Validate payload structure
-        if (!this.isValidWebhookPayload(payload)) {
-          this.logger.warn('Invalid webhook payload structure');
-          return res.status(400).json({ error: 'Invalid payload structure' });
+        // A job that hasn't logged anything yet is still worth following
+        if (follow && await this.isJobPending(jobId)) {
+          return this.streamJobLogs(req, res, jobId, from, to);
         }
 
-        // 🚨 IMPROVED: Deduplication and job queue processing
-        const deliveryId = req.headers['x-github-delivery'] as string;
-        const commentId = payload.comment?.id?.toString() || 'unknown';
-        const deduplicationKey = `${payload.repository.full_name}-${commentId}-${payload.action}`;
-        
-        // Check for duplicate processing
-        if (this.processedWebhooks.has(deduplicationKey)) {
-          this.logger.warn('Duplicate webhook ignored to prevent API waste', {
-            repository: payload.repository.full_name,
-            commentId,
-            delivery: deliveryId
-          });
-          return res.status(200).json({ message: 'Duplicate webhook ignored' });
+        // Streams expire; fall back to the log kept in the job history
+        const job = await getJobStore().get(jobId);
+        if (!job) {
+          return res.status(404).json({ error: 'Job not found' });
         }
 
-        // Mark as processed
-        this.processedWebhooks.add(deduplicationKey);
+        const entries = (job.log || '')
+          .split('\n')
+          .slice(0, -1)
+          .map((line, index) => ({
+            seq: index + 1,
+            type: 'stdout' as const,
+            line,
+            timestamp: job.completedAt ?? job.createdAt
+          }))
+          .filter(entry => entry.seq >= from && (to === undefined || entry.seq <= to));
 
-        this.logger.info('Processing webhook with BullMQ queue', {
-          repository: payload.repository.full_name,
-          delivery: deliveryId,
-          deduplicationKey
+        // The job is over, so there is nothing left to follow - send what was kept and close
+        if (follow) {
+          this.openEventStream(res);
+          entries.forEach(entry => this.writeLogEvent(res, entry));
+          res.write('event: end\ndata: {}\n\n');
+          return res.end();
+        }
+
+        res.json({ jobId, source: 'history', entries });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (error instanceof RangeError) {
+          return res.status(400).json({ error: errorMessage });
+        }
+        this.logger.error('Failed to get job logs', { jobId, error: errorMessage });
+        if (!res.headersSent) {
+          res.status(500).json({ error: 'Failed to retrieve job logs' });
+        } else {
+          res.end();
+        }
+      }
+    });
+
+    // Delivery inbox: every webhook received, what was decided and which job it queued. Lists senders,
+    // addresses and private repository names, so like the stored deliveries it is for the admin only.
+    this.app.get('/deliveries', requireAdminToken, async (req, res) => {
+      try {
+        const query = this.parseDeliveryQuery(req.query);
+        res.json({
+          deliveries: await listDeliveries(query),
+          limit: query.limit,
+          offset: query.offset
         });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (error instanceof RangeError) {
+          return res.status(400).json({ error: errorMessage });
+        }
+        this.logger.error('Failed to list deliveries', { error: errorMessage });
+        res.status(500).json({ error: 'Failed to retrieve deliveries' });
+      }
+    });
+
+    // Stored deliveries also include raw bodies and headers
+    this.app.get('/deliveries/:id', requireAdminToken, async (req, res) => {
+      try {
+        const stored = await getDelivery(req.params.id);
+        if (!stored) {
+          return res.status(404).json({ error: 'Delivery not found' });
+        }
+        res.json({ ...stored.delivery, body: stored.body.toString('utf-8') });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to get delivery', { id: req.params.id, error: errorMessage });
+        res.status(500).json({ error: 'Failed to retrieve delivery' });
+      }
+    });
 
-        // Add job to queue instead of direct processing
-        const jobId = await this.queueWebhookJob(payload, deliveryId);
+    // Push a stored delivery through the webhook pipeline again; {"force": true} skips deduplication
+    this.app.post('/deliveries/:id/replay', requireAdminToken, async (req, res) => {
+      const id = req.params.id;
 
-        // Respond immediately to GitHub
-        res.status(200).json({ 
-          message: 'Webhook received and queued for processing',
-          jobId,
-          delivery: deliveryId,
-          queueStatus: 'queued'
+      try {
+        const stored = await getDelivery(id);
+        if (!stored) {
+          return res.status(404).json({ error: 'Delivery not found' });
+        }
+        if (stored.delivery.bodyTruncated) {
+          return res.status(409).json({ error: 'Delivery body was truncated and cannot be replayed' });
+        }
+
+        let body: unknown;
+        try {
+          body = JSON.parse(stored.body.toString('utf-8'));
+        } catch {
+          return res.status(409).json({ error: 'Delivery body is not JSON and cannot be replayed' });
+        }
+
+        this.logger.info('Replaying delivery', { id, delivery: stored.delivery.deliveryId, force: req.body?.force === true });
+        const { inboxId, result } = await this.receiveDelivery({
+          headers: stored.delivery.headers,
+          rawBody: stored.body,
+          body,
+          remoteAddress: req.ip,
+          replayOf: id,
+          skipDedupe: req.body?.force === true,
+          verifiedAs: stored.delivery.verification
         });
 
+        res.json({
+          id: inboxId,
+          replayOf: id,
+          status: result.status,
+          statusCode: result.statusCode,
+          response: result.response
+        });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error('Webhook processing error', { error: errorMessage });
-        res.status(500).json({ error: 'Internal server error' });
+        this.logger.error('Failed to replay delivery', { id, error: errorMessage });
+        res.status(500).json({ error: 'Failed to replay delivery' });
       }
     });
 
+    // Main webhook endpoint
+    this.app.post(this.config.path, async (req, res) => {
+      const { result } = await this.receiveDelivery({
+        headers: req.headers,
+        rawBody: (req as RawBodyRequest).rawBody,
+        body: req.body,
+        remoteAddress: req.ip
+      });
+      res.status(result.statusCode).json(result.response);
+    });
+
     // Trigger endpoint for manual testing (only in development)
     if (process.env.NODE_ENV === 'development') {
       this.app.post('/trigger', async (req, res) => {
         try {
-          const { repository, feature, branch = 'main' } = req.body;
+          const { repository, feature, branch = 'main', user = 'wjorgensen' } = req.body;
 
           if (!repository || !feature) {
             return res.status(400).json({ 
@@ -246,35 +479,38 @@ export class WebhookServer {
             });
           }
 
-          // Create a mock webhook payload for testing
-          const mockPayload: GitHubWebhookPayload = {
+          // Build a manual trigger for testing
+          const [owner, name] = repository.split('/');
+          const trigger: TriggerContext = {
+            event: 'manual',
             repository: {
-              full_name: repository,
-              clone_url: `https://github.com/${repository}.git`,
-              private: false,
-              owner: {
-                login: repository.split('/')[0]
-              },
-              name: repository.split('/')[1]
+              fullName: repository,
+              owner,
+              name,
+              cloneUrl: `https://github.com/${repository}.git`,
+              private: false
             },
-            pull_request: {
+            target: {
+              type: 'pull_request',
               number: 999, // Mock PR number
-              head: {
-                ref: branch,
-                sha: 'mock-sha-' + Date.now()
-              }
+              headRef: branch,
+              headSha: 'mock-sha-' + Date.now()
             },
             comment: {
               id: Date.now(),
-              body: `@gemini ${feature}`,
-              user: {
-                login: 'wjorgensen' // Authorized user for testing
-              }
+              body: `@gemini implement ${feature}`,
+              author: user
             }
           };
 
-          // Process the mock webhook
-          const result = await this.orchestrator.processWebhook(mockPayload);
+          // Manual triggers go through the same checks as webhooks
+          const admission = await this.triggerAdmission.admit(trigger, { source: 'manual' });
+          if (!admission.admitted) {
+            return res.status(403).json({ error: admission.reason });
+          }
+
+          // Process the manual trigger
+          const result = await this.orchestrator.processWebhook(trigger, admission.command);
 
           res.json({
             message: 'Manual trigger processed',
@@ -307,109 +543,578 @@ export class WebhookServer {
   }
 
   /**
-   * Verifies GitHub webhook signature
+   * Parses /jobs query string filters, throwing RangeError for invalid values
    */
-  private verifySignature(payload: any, signature: string): boolean {
-    if (!signature || !this.config.secret) {
-      return false;
+  private parseJobQuery(params: Record<string, unknown>): JobQuery {
+    const text = (name: string): string | undefined => {
+      const value = params[name];
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+
+    const date = (name: string): string | undefined => {
+      const value = text(name);
+      if (!value) return undefined;
+      const parsed = new Date(value);
+      if (isNaN(parsed.getTime())) {
+        throw new RangeError(`Invalid ${name} date: ${value}`);
+      }
+      return parsed.toISOString();
+    };
+
+    const integer = (name: string, fallback: number): number => {
+      const value = text(name);
+      if (!value) return fallback;
+      const parsed = parseInt(value, 10);
+      if (isNaN(parsed) || parsed < 0) {
+        throw new RangeError(`Invalid ${name}: ${value}`);
+      }
+      return parsed;
+    };
+
+    const status = text('status');
+    if (status && !JOB_RECORD_STATUSES.includes(status as JobRecordStatus)) {
+      throw new RangeError(`Invalid status: ${status} (expected ${JOB_RECORD_STATUSES.join(', ')})`);
     }
 
-    const hmac = crypto.createHmac('sha256', this.config.secret);
-    const digest = 'sha256=' + hmac.update(JSON.stringify(payload)).digest('hex');
-    
-    return crypto.timingSafeEqual(Buffer.from(digest), Buffer.from(signature));
+    return {
+      repository: text('repo') ?? text('repository'),
+      user: text('user'),
+      status: status as JobRecordStatus | undefined,
+      since: date('since'),
+      until: date('until'),
+      limit: Math.min(integer('limit', 50), 500),
+      offset: integer('offset', 0)
+    };
   }
 
   /**
-   * Validates webhook payload structure
+   * Parses /deliveries query string filters, throwing RangeError for invalid values
    */
-  private isValidWebhookPayload(payload: any): payload is GitHubWebhookPayload {
-    return payload &&
-           payload.repository &&
-           payload.repository.full_name &&
-           payload.repository.clone_url &&
-           payload.comment &&
-           payload.comment.body &&
-           payload.comment.user &&
-           payload.comment.user.login;
+  private parseDeliveryQuery(params: Record<string, unknown>): DeliveryQuery {
+    const text = (name: string): string | undefined => {
+      const value = params[name];
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+
+    const integer = (name: string, fallback: number): number => {
+      const value = text(name);
+      if (!value) return fallback;
+      const parsed = parseInt(value, 10);
+      if (isNaN(parsed) || parsed < 0) {
+        throw new RangeError(`Invalid ${name}: ${value}`);
+      }
+      return parsed;
+    };
+
+    const status = text('status');
+    if (status && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+      throw new RangeError(`Invalid status: ${status} (expected ${DELIVERY_STATUSES.join(', ')})`);
+    }
+
+    return {
+      status: status as DeliveryStatus | undefined,
+      event: text('event'),
+      limit: Math.min(integer('limit', 50), 500),
+      offset: integer('offset', 0)
+    };
   }
 
   /**
-   * Queues webhook job using BullMQ instead of direct processing
+   * Parses a log sequence number query parameter, throwing RangeError for invalid values
+   */
+  private parseSeq(value: unknown): number | undefined {
+    if (value === undefined || value === '') return undefined;
+
+    const parsed = parseInt(String(value), 10);
+    if (isNaN(parsed) || parsed < 1) {
+      throw new RangeError(`Invalid sequence number: ${value}`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Streams job log lines as server-sent events until the job finishes or the client leaves
+   */
+  private async streamJobLogs(
+    req: express.Request,
+    res: express.Response,
+    jobId: string,
+    from: number,
+    to?: number
+  ): Promise<void> {
+    this.openEventStream(res);
+
+    const abort = new AbortController();
+    req.on('close', () => abort.abort());
+
+    for await (const entry of followJobLogs(jobId, from, abort.signal)) {
+      if (to !== undefined && entry.seq > to) break;
+      this.writeLogEvent(res, entry);
+    }
+
+    if (!abort.signal.aborted) {
+      res.write('event: end\ndata: {}\n\n');
+      res.end();
+    }
+  }
+
+  private openEventStream(res: express.Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+  }
+
+  private writeLogEvent(res: express.Response, entry: JobLogEntry): void {
+    res.write(`id: ${entry.seq}\nevent: log\ndata: ${JSON.stringify(entry)}\n\n`);
+  }
+
+  /**
+   * Whether the job is still waiting or running in the queue, so its log may yet grow
    */
-  private async queueWebhookJob(payload: GitHubWebhookPayload, deliveryId: string): Promise<string> {
+  private async isJobPending(jobId: string): Promise<boolean> {
+    const job = await geminiQueue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    return state !== 'completed' && state !== 'failed' && state !== 'unknown';
+  }
+
+  /**
+   * Records a delivery in the inbox, runs it through the pipeline and records the outcome
+   */
+  private async receiveDelivery(delivery: IncomingDelivery): Promise<{ inboxId: string; result: DeliveryResult }> {
+    const provider = detectProvider(delivery.headers);
+    const inboxId = await recordDelivery(delivery.headers, delivery.rawBody, {
+      ...provider.describeDelivery(delivery.headers),
+      provider: provider.name,
+      remoteAddress: delivery.remoteAddress,
+      replayOf: delivery.replayOf
+    });
+
+    const result = await this.processDelivery(delivery);
+
+    const { message, error, jobId } = result.response;
+    await updateDelivery(inboxId, {
+      status: result.status,
+      verification: result.verification,
+      verificationDetail: result.verificationDetail,
+      decision: typeof message === 'string' ? message : typeof error === 'string' ? error : undefined,
+      jobId: typeof jobId === 'string' ? jobId : undefined
+    });
+
+    return { inboxId, result };
+  }
+
+  /**
+   * Verifies the delivery's signature with the provider that sent it, then routes it
+   */
+  private async processDelivery(delivery: IncomingDelivery): Promise<DeliveryResult> {
+    const provider = detectProvider(delivery.headers);
+    const { deliveryId } = provider.describeDelivery(delivery.headers);
+
+    // Verify webhook signature if secrets are configured
+    if (this.config.secrets.length === 0) {
+      return { ...await this.routeDelivery(delivery, provider), verification: 'unsigned' };
+    }
+
+    // A shared token header isn't stored with the delivery, so replays of those rely on the original check
+    if (!provider.signsBody && delivery.replayOf) {
+      if (delivery.verifiedAs !== 'verified') {
+        return {
+          statusCode: 401,
+          response: { error: 'Invalid signature' },
+          status: 'rejected',
+          verification: 'rejected',
+          verificationDetail: 'Replayed delivery was not verified when first received'
+        };
+      }
+      return {
+        ...await this.routeDelivery(delivery, provider),
+        verification: 'verified',
+        verificationDetail: 'Verified when first received'
+      };
+    }
+
+    const verification = provider.verifySignature(delivery.headers, delivery.rawBody, this.config.secrets);
+    if ('reason' in verification) {
+      this.logger.warn('Invalid webhook signature', {
+        provider: provider.name,
+        delivery: deliveryId,
+        reason: verification.reason
+      });
+      return {
+        statusCode: 401,
+        response: { error: 'Invalid signature' },
+        status: 'rejected',
+        verification: 'rejected',
+        verificationDetail: verification.reason
+      };
+    }
+
+    if (verification.secretIndex > 0) {
+      this.logger.info('Delivery signed with a previous webhook secret', {
+        provider: provider.name,
+        delivery: deliveryId,
+        secretIndex: verification.secretIndex
+      });
+    }
+
+    return {
+      ...await this.routeDelivery(delivery, provider),
+      verification: 'verified',
+      verificationDetail: verification.secretIndex > 0 ? `Signed with previous secret #${verification.secretIndex}` : undefined
+    };
+  }
+
+  /**
+   * Decides what a verified delivery leads to: a queued job, a control command, a re-run or nothing
+   */
+  private async routeDelivery(delivery: IncomingDelivery, provider: GitProvider): Promise<DeliveryResult> {
+    const { event, deliveryId } = provider.describeDelivery(delivery.headers);
+    let claim: DeliveryClaim | undefined;
+
     try {
-      // Setup repository and prepare job data
-      const repoPath = await this.orchestrator['repositoryManager'].setupRepository(
-        payload.repository.clone_url,
-        payload.repository.full_name,
-        process.env.GITHUB_TOKEN
-      );
+      const route = await provider.routeWebhook(event, delivery.body, deliveryId);
+
+      switch (route.type) {
+        case 'ignored':
+          this.logger.debug('Ignoring webhook', { provider: provider.name, event, reason: route.message });
+          return { statusCode: 200, status: 'ignored', response: { message: route.message } };
+
+        case 'invalid':
+          this.logger.warn('Invalid webhook payload structure', { provider: provider.name, event });
+          return { statusCode: 400, status: 'rejected', response: { error: route.message } };
+
+        case 'rerun': {
+          const { status, message, jobId } = await this.handleRerunRequest(
+            route,
+            delivery.skipDedupe ? undefined : deliveryId
+          );
+          return { statusCode: 200, status, response: { message, jobId, delivery: deliveryId } };
+        }
+      }
+
+      // Ignore comments that don't mention @gemini at all
+      if (!this.commandParser.hasTrigger(route.body)) {
+        this.logger.debug('Ignoring comment without @gemini trigger');
+        return { statusCode: 200, status: 'ignored', response: { message: 'No trigger found' } };
+      }
+
+      // Providers redeliver on timeouts and other instances may see the same comment - handle each once
+      const claimed = await claimDelivery(delivery.skipDedupe ? {} : {
+        deliveryId,
+        provider: provider.name,
+        repository: route.repository,
+        commentId: route.commentId
+      });
+
+      if ('duplicate' in claimed) {
+        const { duplicate } = claimed;
+        this.logger.warn('Duplicate webhook ignored to prevent API waste', {
+          repository: route.repository,
+          commentId: route.commentId,
+          delivery: deliveryId,
+          status: duplicate.status,
+          jobId: duplicate.status === 'done' ? duplicate.jobId : undefined
+        });
+        return {
+          statusCode: 200,
+          status: 'duplicate',
+          response: {
+            message: duplicate.status === 'done' ? 'Duplicate webhook ignored' : 'Duplicate webhook ignored - still processing',
+            jobId: duplicate.status === 'done' ? duplicate.jobId : undefined,
+            delivery: deliveryId
+          }
+        };
+      }
+      claim = claimed.claim;
+
+      // Resolve issue vs. pull request once, up front
+      const trigger = await route.normalize();
+
+      this.logger.info('Processing webhook with BullMQ queue', {
+        provider: provider.name,
+        repository: trigger.repository.fullName,
+        target: `${trigger.target.type}#${trigger.target.number}`,
+        delivery: deliveryId
+      });
+
+      // Validate the command and check the access policy before any repository work
+      const admission = await this.triggerAdmission.admit(trigger, { source: 'webhook' });
+      if (!admission.admitted) {
+        if (admission.reply) {
+          await this.orchestrator.replyToTrigger(trigger, admission.reply);
+        }
+        const message = `Trigger rejected: ${admission.reason}`;
+        await completeDelivery(claim, message);
+        return { statusCode: 200, status: 'denied', response: { message, delivery: deliveryId } };
+      }
+      const { command } = admission;
+
+      // Control commands act on existing jobs and never reach the queue
+      if (!this.commandParser.isJobCommand(command)) {
+        const message = await this.handleControlCommand(command, trigger);
+        await completeDelivery(claim, message);
+        return { statusCode: 200, status: 'handled', response: { message, command: command.name, delivery: deliveryId } };
+      }
+
+      // Add job to queue instead of direct processing
+      const jobId = await this.queueWebhookJob(trigger, admission);
+      await completeDelivery(claim, 'Webhook received and queued for processing', jobId);
+
+      // Respond immediately to the provider
+      return {
+        statusCode: 200,
+        status: 'queued',
+        response: {
+          message: 'Webhook received and queued for processing',
+          jobId,
+          delivery: deliveryId,
+          queueStatus: 'queued'
+        }
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Webhook processing error', { provider: provider.name, error: errorMessage });
+
+      // Let the provider's redelivery try again
+      if (claim) {
+        await releaseDelivery(claim).catch(() => undefined);
+      }
+      return { statusCode: 500, status: 'failed', response: { error: 'Internal server error' } };
+    }
+  }
+
+  /**
+   * Handles commands that control existing jobs rather than starting new ones
+   */
+  private async handleControlCommand(command: ParsedCommand, trigger: TriggerContext): Promise<string> {
+    const repository = trigger.repository.fullName;
+    const issueNumber = trigger.target.number;
+    const reply = (body: string) => this.orchestrator.replyToTrigger(trigger, body);
+
+    switch (command.name) {
+      case 'status': {
+        const stats = await getQueueStats();
+        const jobs = await findJobsForTarget(trigger, ['active', 'waiting', 'delayed', 'prioritized']);
+        const jobLines = await Promise.all(
+          jobs.map(async job => `- \`${job.id}\` (${job.name}): ${await job.getState()}`)
+        );
+
+        await reply(`📊 **Gemini Queue Status**
+
+- Waiting: ${stats.waiting}
+- Active: ${stats.active}
+- Completed: ${stats.completed}
+- Failed: ${stats.failed}
+- Paused: ${stats.isPaused ? 'yes' : 'no'}
+
+**Jobs for this thread:**
+${jobLines.length > 0 ? jobLines.join('\n') : '_None queued or running_'}`);
+        return 'Status posted';
+      }
 
-      // Checkout PR branch if needed
-      if (payload.pull_request) {
-        await this.orchestrator['repositoryManager'].checkoutPRBranch(
-          repoPath,
-          payload.pull_request.head.ref,
-          payload.pull_request.head.sha
+      case 'cancel': {
+        const jobs = await findJobsForTarget(trigger, ['waiting', 'delayed', 'prioritized', 'active']);
+        const results = await Promise.all(
+          jobs.map(job => cancelJob(job.id!, `@${trigger.comment.author}`))
         );
+
+        const removed = results.filter(result => result.outcome === 'removed');
+        const signalled = results.filter(result => result.outcome === 'signalled');
+        const list = (items: CancelResult[]) => items.map(result => `\`${result.jobId}\``).join(', ');
+
+        this.logger.info('Cancelled jobs', {
+          repository,
+          issueNumber,
+          removed: removed.map(result => result.jobId),
+          signalled: signalled.map(result => result.jobId)
+        });
+
+        const lines = [
+          ...(removed.length > 0 ? [`🛑 Removed ${removed.length} queued job(s): ${list(removed)}`] : []),
+          ...(signalled.length > 0 ? [`🛑 Stopping ${signalled.length} running job(s): ${list(signalled)} - their changes will be discarded`] : [])
+        ];
+
+        await reply(lines.length > 0 ? lines.join('\n') : '🤷 No queued or running jobs to cancel for this thread.');
+        return `Cancelled ${removed.length + signalled.length} job(s)`;
       }
 
+      case 'retry': {
+        const [previous] = await findJobsForTarget(trigger, ['completed', 'failed']);
+        if (!previous) {
+          await reply('🤷 No previous job found to retry for this thread.');
+          return 'Nothing to retry';
+        }
+
+        // The original command may use a command or model this user isn't allowed
+        const admission = await this.triggerAdmission.admit(trigger, { source: 'retry', command: previous.data.command });
+        if (!admission.admitted) {
+          if (admission.reply) {
+            await reply(admission.reply);
+          }
+          return `Retry rejected: ${admission.reason}`;
+        }
+
+        // Re-run the original command against the current state of the thread
+        const jobId = await this.queueWebhookJob(trigger, admission);
+        await reply(`🔁 Retrying \`${previous.id}\` as \`${jobId}\`.`);
+        return `Retried as ${jobId}`;
+      }
+
+      default:
+        return `Unhandled command ${command.name}`;
+    }
+  }
+
+  /**
+   * Re-enqueues a job when a re-run is requested, e.g. with a check run's Re-run button (ours or GitHub's)
+   */
+  private async handleRerunRequest(
+    request: { jobId: string; actor: string },
+    deliveryId?: string
+  ): Promise<{ status: DeliveryStatus; message: string; jobId?: string }> {
+    const { jobId } = request;
+
+    // A redelivered click must not queue the job twice
+    const claimed = await claimDelivery({ deliveryId });
+    if ('duplicate' in claimed) {
+      const { duplicate } = claimed;
+      this.logger.warn('Duplicate re-run request ignored', { jobId, delivery: deliveryId });
+      return { status: 'duplicate', message: 'Duplicate webhook ignored', jobId: duplicate.status === 'done' ? duplicate.jobId : undefined };
+    }
+
+    try {
+      const outcome = await this.rerunJob(jobId, request.actor);
+      await completeDelivery(claimed.claim, outcome.message, outcome.jobId);
+      return outcome;
+    } catch (error) {
+      await releaseDelivery(claimed.claim).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Queues a previous job again, at the pull request's current head
+   */
+  private async rerunJob(
+    jobId: string,
+    actor: string
+  ): Promise<{ status: DeliveryStatus; message: string; jobId?: string }> {
+    // Queue entries are trimmed after a while; the job history keeps the original trigger
+    const queued = await geminiQueue.getJob(jobId);
+    const previous = queued
+      ? { trigger: queued.data.trigger, command: queued.data.command }
+      : isJobStoreReady() ? await getJobStore().get(jobId).catch(() => null) : null;
+
+    if (!previous) {
+      this.logger.warn('Re-run requested for unknown job', { jobId });
+      return { status: 'ignored', message: 'Job not found' };
+    }
+
+    // Run against the current head of the pull request, not the commit the check was on
+    let { trigger } = previous;
+    if (trigger.target.type === 'pull_request') {
+      const head = await providerFor(trigger.repository).getPullRequest(trigger.repository, trigger.target.number);
+      if (head) {
+        trigger = { ...trigger, target: { ...trigger.target, ...head } };
+      }
+    }
+
+    // Whoever presses the button needs the same access as the original requester
+    const admission = await this.triggerAdmission.admit(trigger, {
+      source: 'check_run',
+      command: previous.command,
+      actor
+    });
+    if (!admission.admitted) {
+      if (admission.reply) {
+        await this.orchestrator.replyToTrigger(trigger, admission.reply);
+      }
+      return { status: 'denied', message: `Re-run rejected: ${admission.reason}` };
+    }
+
+    const rerunJobId = await this.queueWebhookJob(trigger, admission);
+    this.logger.info('Re-queued job', { jobId, rerunJobId, user: actor });
+    return { status: 'queued', message: `Re-queued as ${rerunJobId}`, jobId: rerunJobId };
+  }
+
+  /**
+   * Queues webhook job using BullMQ instead of direct processing
+   */
+  private async queueWebhookJob(trigger: TriggerContext, admission: AdmittedTrigger): Promise<string> {
+    const { command, priority, budget, deferredUntil } = admission;
+    const deliveryId = trigger.deliveryId;
+    let worktreePath: string | undefined;
+
+    try {
+      // Setup repository and create this job's worktree at the PR head or a fresh issue branch
+      const { repoPath, issueBranch } = await this.orchestrator.prepareWorkspace(trigger, command);
+      worktreePath = repoPath;
+      const kind = command.name as GeminiJobKind;
+      const featureSpec = command.args;
+
       // Detect project configuration
       const projectConfig = await this.orchestrator['projectDetector'].loadProjectConfig(
         repoPath,
         await this.orchestrator['projectDetector'].detectProjectType(repoPath)
       );
 
-      // Extract feature specification
-      const featureSpec = payload.comment?.body
-        ?.replace(/@gemini/gi, '')
-        ?.trim() || '';
-
       // Build prompt and save to file
       const prompt = await this.orchestrator['promptBuilder'].buildPrompt(
         projectConfig,
         featureSpec,
         repoPath,
-        payload
+        trigger,
+        kind
       );
 
       const promptFile = `${repoPath}/.gemini-prompt.txt`;
       await require('fs/promises').writeFile(promptFile, prompt);
-
-      // Prepare environment
-      const env = {
-        ...process.env,
-        GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-        GITHUB_TOKEN: process.env.GITHUB_TOKEN,
-        PR_NUMBER: payload.pull_request?.number?.toString(),
-        REPO_OWNER: payload.repository.owner.login,
-        REPO_NAME: payload.repository.name,
-        PROJECT_TYPE: projectConfig.type,
-        WORKSPACE_PATH: repoPath
-      };
+      const promptHash = crypto.createHash('sha256').update(prompt).digest('hex');
 
       // Add job to queue
       const jobId = await addGeminiJob({
+        kind,
+        command,
         repoPath,
         promptFile,
+        promptHash,
         projectConfig,
-        payload,
-        env
+        trigger,
+        issueBranch,
+        budget
+      }, {
+        lane: priority,
+        delayMs: deferredUntil ? deferredUntil.getTime() - Date.now() : undefined
       });
 
+      // Acknowledge on the thread; the worker edits this comment as the job progresses
+      if (deferredUntil) {
+        reportJobStatus(jobId, trigger, { state: 'deferred', until: deferredUntil.toISOString() });
+      } else {
+        getQueuePosition(jobId)
+          .catch(() => 0)
+          .then(position => reportJobStatus(jobId, trigger, { state: 'queued', position, priority }));
+      }
+
       // Emit job started event for real-time dashboard
       emitJobStarted(jobId, {
-        repository: payload.repository.full_name,
-        user: payload.comment?.user.login,
+        repository: trigger.repository.fullName,
+        user: trigger.comment.author,
+        kind,
         featureSpec,
         projectType: projectConfig.type
       });
 
       this.logger.info('Webhook job queued successfully', {
         jobId,
-        repository: payload.repository.full_name,
+        repository: trigger.repository.fullName,
         delivery: deliveryId,
+        kind,
         projectType: projectConfig.type
       });
 
@@ -417,10 +1122,18 @@ export class WebhookServer {
 
     } catch (error) {
       this.logger.error('Failed to queue webhook job', {
-        repository: payload.repository.full_name,
+        repository: trigger.repository.fullName,
         delivery: deliveryId,
         error: error instanceof Error ? error.message : String(error)
       });
+
+      // The job never made it onto the queue, so nothing else will clean up its worktree or use its budget
+      if (worktreePath) {
+        await this.orchestrator['repositoryManager'].removeWorktree(worktreePath);
+      }
+      if (budget) {
+        await releaseBudget(budget).catch(() => undefined);
+      }
       throw error;
     }
   }
@@ -434,6 +1147,13 @@ export class WebhookServer {
       await initializeQueue();
       this.logger.info('BullMQ queue initialized');
 
+      // Pick up a quota pause left by an earlier run, resuming the queue if it is already over
+      scheduleQuotaResume();
+
+      // Initialize persistent job history
+      await initializeJobStore();
+      this.logger.info('Job store initialized');
+
       // Initialize Socket.io for real-time dashboard
       initializeSocketIO(this.httpServer);
       this.logger.info('Socket.io initialized for real-time dashboard');
@@ -471,6 +1191,7 @@ export class WebhookServer {
               closeWorker(),
               closeSocketIO()
             ]);
+            await closeJobStore();
             
             server.close(() => {
               this.logger.info('All services closed gracefully');
@@ -520,7 +1241,7 @@ export function createWebhookServer(
   const fullConfig: WebhookServerConfig = {
     port: parseInt(process.env.WEBHOOK_PORT || '5000'),
     path: process.env.WEBHOOK_PATH || '/webhook',
-    secret: process.env.WEBHOOK_SECRET,
+    secrets: parseWebhookSecrets(process.env.WEBHOOK_SECRET),
     cors: {
       origin: (process.env.CORS_ORIGINS || '*').split(',')
     },
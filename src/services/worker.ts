@@ -1,23 +1,47 @@
-import { Job, Worker } from 'bullmq';
+import { DelayedError, Job, Worker } from 'bullmq';
 import { GeminiOrchestrator } from './orchestrator';
-import { GeminiJobData, GeminiJobResult, pauseQueueForQuota, geminiQueue } from './queue';
+import { CommandParser } from './command-parser';
+import { GeminiJobData, GeminiJobResult, geminiQueue } from './queue';
 import { Logger } from '../utils/logger';
-import { emitJobStdout, emitQuotaExhausted } from './events';
+import { emitJobCancelled, emitJobStdout } from './events';
+import { JobStore, getJobStore, isJobStoreReady } from './job-store';
+import { setJobLogFinished } from './job-logs';
+import { getCancelRequest, subscribeToCancellations } from './job-cancellation';
+import { reportJobStatus } from './job-status';
+import { BudgetReservation, estimateTokens, recordTokenUsage, releaseBudget } from './quota-budget';
+import { pauseForQuota } from './quota-state';
+import { ApiKey, coolDownApiKey, nextApiKeyRecovery, pickApiKey } from './api-key-pool';
+import { GeminiExecutionError, JobCancelledError, ParsedCommand, ProjectConfig, QuotaExceededError, TimeoutError } from '../types';
 
 const logger = new Logger('GeminiWorker');
+const commandParser = new CommandParser();
 
-class QuotaExceededError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'QuotaExceededError';
-  }
-}
+// Service-wide timeout defaults; repos and commands may override them up to the maximum
+const DEFAULT_TIMEOUT_MINUTES = parseInt(process.env.JOB_TIMEOUT_MINUTES || '30');
+const DEFAULT_IDLE_TIMEOUT_MINUTES = parseInt(process.env.JOB_IDLE_TIMEOUT_MINUTES || '10');
+const MAX_TIMEOUT_MINUTES = parseInt(process.env.JOB_MAX_TIMEOUT_MINUTES || '120');
+
+// Abort controllers for jobs running in this worker, so cancel requests can reach them
+const runningJobs = new Map<string, AbortController>();
+
+const cancellations = subscribeToCancellations((jobId, requestedBy) => {
+    const controller = runningJobs.get(jobId);
+    if (controller) {
+        logger.info('Cancelling running job', { jobId, requestedBy });
+        controller.abort(new JobCancelledError(jobId, requestedBy));
+    }
+}).catch(error => {
+    logger.error('Failed to subscribe to job cancellations', {
+        error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+});
 
-const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJobResult>): Promise<GeminiJobResult> => {
+const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJobResult>, token?: string): Promise<GeminiJobResult> => {
     const startTime = Date.now();
     
     // Extract job data with validation
-    const { repoPath, promptFile, projectConfig, payload, env, jobId } = job.data;
+    const { kind, command, repoPath, promptFile, projectConfig, trigger, issueBranch, jobId } = job.data;
     
     // Validate required job data
     if (!jobId) {
@@ -27,6 +51,7 @@ const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJo
     
     if (!projectConfig || !projectConfig.type) {
         logger.error('Job missing projectConfig', { jobId, jobData: job.data });
+        releaseJobBudget(jobId, job.data.budget);
         return {
             success: false,
             output: 'Job missing required project configuration',
@@ -39,6 +64,7 @@ const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJo
     
     if (!repoPath || !promptFile) {
         logger.error('Job missing required paths', { jobId, repoPath, promptFile });
+        releaseJobBudget(jobId, job.data.budget);
         return {
             success: false,
             output: 'Job missing required repository path or prompt file',
@@ -49,52 +75,121 @@ const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJo
         };
     }
 
-    logger.info('Starting Gemini job', { jobId, repoPath, projectType: projectConfig.type });
+    logger.info('Starting Gemini job', { jobId, kind, repoPath, projectType: projectConfig.type });
     emitJobStdout(jobId, 'Starting Gemini CLI execution...');
 
+    // Create orchestrator with proper workspace path
+    const orchestrator = new GeminiOrchestrator(repoPath);
+
+    const abortController = new AbortController();
+    runningJobs.set(jobId, abortController);
+    // Once Gemini has run the reserved request is spent, whatever happens afterwards
+    let geminiStarted = false;
+    // A job put back for after a quota pause keeps its worktree for the next run
+    let rescheduled = false;
+
     try {
-        // Create orchestrator with proper workspace path
-        const orchestrator = new GeminiOrchestrator(env.WORKSPACE_PATH || '/workspace');
-        
+        // The job may have been cancelled while it was being picked up
+        const cancelledBy = await getCancelRequest(jobId);
+        if (cancelledBy) {
+            throw new JobCancelledError(jobId, cancelledBy);
+        }
+
         // Read the prompt from the file
         const fs = await import('fs/promises');
         const prompt = await fs.readFile(promptFile, 'utf-8');
         
-        emitJobStdout(jobId, `Executing Gemini CLI for ${payload.repository.full_name}`);
+        emitJobStdout(jobId, `Executing Gemini CLI (${kind}) for ${trigger.repository.fullName}`);
         emitJobStdout(jobId, `Project Type: ${projectConfig.type}`);
         emitJobStdout(jobId, `Working Directory: ${repoPath}`);
         
         // Execute Gemini CLI
-        const output = await orchestrator.executeGemini(repoPath, prompt, jobId);
-        
-        const duration = Date.now() - startTime;
-        emitJobStdout(jobId, `✅ Gemini CLI completed successfully in ${duration}ms`);
+        const timeouts = resolveTimeouts(command, projectConfig);
+        emitJobStdout(jobId, `Timeouts: ${timeouts.timeoutMs / 60000}m total, ${timeouts.idleTimeoutMs / 60000}m without output`);
+
+        const { output, keyId } = await runWithApiKeys(jobId, job.data.budget?.keyId, async apiKey => {
+            geminiStarted = true;
+            return orchestrator.executeGemini(repoPath, prompt, jobId, {
+                model: command?.options.model,
+                signal: abortController.signal,
+                ...timeouts,
+                // Only the key for this attempt - the worker commits and pushes after Gemini exits,
+                // so Gemini gets no git credentials, and git fails rather than prompting for some
+                env: {
+                    GEMINI_API_KEY: apiKey.key,
+                    GIT_TERMINAL_PROMPT: '0'
+                }
+            });
+        });
         
+        emitJobStdout(jobId, `✅ Gemini CLI completed successfully in ${Date.now() - startTime}ms`);
+        if (job.data.budget) {
+            // Charged to the key that actually ran, which may not be the one the request was reserved on
+            recordTokenUsage({ ...job.data.budget, keyId }, estimateTokens(prompt, output)).catch(error => {
+                logger.error('Failed to record token usage', {
+                    jobId,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            });
+        }
+        abortController.signal.throwIfAborted();
+
+        // Pull request work goes onto the PR branch; issue work lives on a fresh branch that needs a pull request
+        let published: { commits: string[]; pullRequestUrl?: string; notPushed?: string } = { commits: [] };
+        if (trigger.target.type === 'pull_request' && commandParser.modifiesCode(kind)) {
+            emitJobStdout(jobId, `📤 Committing changes for ${trigger.target.headRef}`);
+            published = await orchestrator.publishPullRequestChanges(trigger, repoPath, trigger.target, kind, command);
+
+            if (published.commits.length === 0) {
+                emitJobStdout(jobId, 'ℹ️ No changes to commit');
+            } else if (published.notPushed) {
+                emitJobStdout(jobId, `⚠️ ${published.commits.length} commit(s) kept on local branch gemini/pr-${trigger.target.number}: ${published.notPushed}`);
+            } else if (command.options.push) {
+                emitJobStdout(jobId, `🚀 Pushed ${published.commits.length} commit(s) to ${trigger.target.headRef}`);
+            } else {
+                emitJobStdout(jobId, `ℹ️ ${published.commits.length} commit(s) kept on local branch gemini/pr-${trigger.target.number} (--no-push)`);
+            }
+        } else if (issueBranch && commandParser.modifiesCode(kind)) {
+            emitJobStdout(jobId, `📤 Publishing ${issueBranch.branch} for issue #${issueBranch.issueNumber}`);
+            published = await orchestrator.publishIssueBranch(trigger, repoPath, issueBranch, command);
+
+            if (published.pullRequestUrl) {
+                emitJobStdout(jobId, `🔗 Opened draft pull request: ${published.pullRequestUrl}`);
+            } else {
+                emitJobStdout(jobId, `ℹ️ No pull request opened (${published.commits.length} commit(s))`);
+            }
+        }
+
         return {
             success: true,
             output,
             projectType: projectConfig.type,
             timestamp: new Date().toISOString(),
-            commits: [], // TODO: Extract commits from git log if needed
-            duration
+            commits: published.commits,
+            duration: Date.now() - startTime,
+            pullRequestUrl: published.pullRequestUrl,
+            notPushed: published.notPushed
         };
 
     } catch (error) {
         const duration = Date.now() - startTime;
-        if (error instanceof QuotaExceededError || (error instanceof Error && error.message.includes('429'))) {
-            logger.warn('Caught QuotaExceededError, pausing queue and rescheduling job', { jobId });
-            emitJobStdout(jobId, 'API quota limit reached. Pausing queue and rescheduling job.');
 
-            const resumeAt = new Date(Date.now() + 3600 * 1000);
-            await pauseQueueForQuota(resumeAt);
-            emitQuotaExhausted(resumeAt);
+        // Nothing was sent to Gemini, so give the request back - a job paused for quota keeps it for its next run
+        if (!geminiStarted && !(error instanceof QuotaExceededError)) {
+            releaseJobBudget(jobId, job.data.budget);
+        }
+
+        if (error instanceof JobCancelledError) {
+            logger.info('Gemini job cancelled', { jobId, requestedBy: error.requestedBy });
+            emitJobStdout(jobId, `🛑 ${error.message}`);
+
+            // Partial changes are discarded with the job's worktree below
+            emitJobStdout(jobId, '🧹 Discarding the job workspace');
 
-            // Don't reschedule job - let quota protection handle this
-            logger.info('Job not rescheduled - quota protection active', { jobId, resumeAt });
-            
             return {
                 success: false,
-                output: 'API quota exhausted - job paused until quota resets',
+                cancelledBy: error.requestedBy || 'unknown',
+                output: error.message,
                 projectType: projectConfig.type,
                 timestamp: new Date().toISOString(),
                 commits: [],
@@ -102,6 +197,40 @@ const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJo
             };
         }
 
+        if (error instanceof TimeoutError) {
+            logger.warn('Gemini job timed out', { jobId, kind: error.kind, limitMs: error.limitMs });
+            emitJobStdout(jobId, `⏱️ ${error.message}`);
+
+            return {
+                success: false,
+                timeout: error.kind,
+                output: error.message,
+                projectType: projectConfig.type,
+                timestamp: new Date().toISOString(),
+                commits: [],
+                duration
+            };
+        }
+
+        // Only reached once every key in the pool is out of quota
+        if (error instanceof QuotaExceededError) {
+            logger.warn('Caught QuotaExceededError, pausing queue and rescheduling job', { jobId });
+            emitJobStdout(jobId, 'API quota limit reached on every key. Pausing queue and rescheduling job.');
+
+            const resumeAt = await nextApiKeyRecovery();
+            await pauseForQuota(error.message, resumeAt);
+
+            // Runs again once a key recovers, keeping its place in its lane and its budget reservation
+            await job.moveToDelayed(resumeAt.getTime(), token);
+            rescheduled = true;
+            logger.info('Job rescheduled until quota recovers', { jobId, resumeAt });
+            reportJobStatus(jobId, trigger, { state: 'deferred', until: resumeAt.toISOString(), reason: 'quota' });
+            recordHistory(jobId, store => store.markRequeued(jobId));
+
+            // Tells BullMQ the job was moved rather than finished
+            throw new DelayedError();
+        }
+
         const errorMessage = error instanceof Error ? error.message : String(error);
         logger.error('Gemini CLI execution failed', { jobId, error: errorMessage });
         emitJobStdout(jobId, `❌ Error: ${errorMessage}`);
@@ -112,8 +241,16 @@ const worker = new Worker('gemini-jobs', async (job: Job<GeminiJobData, GeminiJo
             projectType: projectConfig.type,
             timestamp: new Date().toISOString(),
             commits: [],
-            duration
+            duration,
+            exitCode: error instanceof GeminiExecutionError ? error.exitCode : undefined
         };
+    } finally {
+        runningJobs.delete(jobId);
+
+        // The worktree belonged to this job only; issue work is kept on a branch in the mirror
+        if (!rescheduled) {
+            await orchestrator['repositoryManager'].removeWorktree(repoPath);
+        }
     }
 }, {
     concurrency: 2,
@@ -141,12 +278,144 @@ worker.on('failed', (job, err) => {
         jobId: job?.id,
         error: err.stack
     });
+
+    if (job?.data.jobId) {
+        // BullMQ retries the job until its attempts run out
+        const maxAttempts = job.opts.attempts ?? 1;
+        reportJobStatus(job.data.jobId, job.data.trigger, job.attemptsMade < maxAttempts
+            ? { state: 'retrying', attempt: job.attemptsMade, maxAttempts, error: err.message }
+            : { state: 'failed', error: err.message, durationMs: Date.now() - (job.processedOn ?? job.timestamp) });
+
+        recordHistory(job.data.jobId, store => store.markFinished(job.data.jobId, {
+            status: 'failed',
+            durationMs: Date.now() - (job.processedOn ?? job.timestamp),
+            commits: [],
+            error: err.message
+        }));
+        markLogFinished(job.data.jobId, true);
+    }
+});
+
+// Mirror job lifecycle into the persistent job history
+worker.on('active', (job) => {
+    reportJobStatus(job.data.jobId, job.data.trigger, {
+        state: 'running',
+        attempt: job.attemptsMade + 1,
+        maxAttempts: job.opts.attempts ?? 1
+    });
+    recordHistory(job.data.jobId, store => store.markRunning(job.data.jobId));
+    markLogFinished(job.data.jobId, false);
+});
+
+worker.on('completed', (job, result) => {
+    if (result.cancelledBy) {
+        emitJobCancelled(job.data.jobId, result.cancelledBy);
+    }
+
+    reportJobStatus(job.data.jobId, job.data.trigger, result.cancelledBy
+        ? { state: 'cancelled', requestedBy: result.cancelledBy }
+        : result.success
+            ? { state: 'completed', result }
+            : { state: 'failed', result, error: result.output, durationMs: result.duration });
+
+    recordHistory(job.data.jobId, store => store.markFinished(job.data.jobId, {
+        status: result.cancelledBy ? 'cancelled' : result.success ? 'completed' : 'failed',
+        durationMs: result.duration,
+        commits: result.commits,
+        exitCode: result.exitCode,
+        error: result.success ? null : result.output
+    }));
+    markLogFinished(job.data.jobId, true);
 });
 
 worker.on('error', (err) => {
     logger.error('Worker error:', err);
 });
 
-export function closeWorker(): Promise<void> {
+function recordHistory(jobId: string, update: (store: JobStore) => Promise<void>): void {
+    if (!jobId || !isJobStoreReady()) return;
+
+    update(getJobStore()).catch(error => {
+        logger.error('Failed to update job history', {
+            jobId,
+            error: error instanceof Error ? error.message : String(error)
+        });
+    });
+}
+
+/**
+ * Runs Gemini with a healthy key from the pool, preferring the one the job's budget was reserved on.
+ * A key that runs out of quota cools down and the run moves to the next one; throws
+ * QuotaExceededError once no healthy key is left.
+ */
+async function runWithApiKeys(
+    jobId: string,
+    preferred: string | undefined,
+    run: (apiKey: ApiKey) => Promise<string>
+): Promise<{ output: string; keyId: string }> {
+    const tried: string[] = [];
+
+    for (;;) {
+        const apiKey = await pickApiKey({ preferred, exclude: tried });
+        if (!apiKey) {
+            throw new QuotaExceededError('Every Gemini API key is out of quota');
+        }
+
+        try {
+            return { output: await run(apiKey), keyId: apiKey.id };
+        } catch (error) {
+            // The orchestrator raises QuotaExceededError only for the API's own quota answer
+            if (!(error instanceof QuotaExceededError)) {
+                throw error;
+            }
+
+            tried.push(apiKey.id);
+            const until = await coolDownApiKey(apiKey.id, error.message);
+            logger.warn('Gemini API key out of quota, switching keys', { jobId, keyId: apiKey.id, until });
+            emitJobStdout(jobId, `🔑 API key ${apiKey.id} is out of quota until ${until.toISOString()}; trying another key`);
+        }
+    }
+}
+
+// Returns a job's reserved request to the daily budgets when the job ends without running Gemini
+function releaseJobBudget(jobId: string, budget: BudgetReservation | undefined): void {
+    if (!budget) return;
+
+    releaseBudget(budget).catch(error => {
+        logger.error('Failed to release budget reservation', {
+            jobId,
+            error: error instanceof Error ? error.message : String(error)
+        });
+    });
+}
+
+// Command flag beats repo config beats service default, all capped at the maximum
+function resolveTimeouts(
+    command: ParsedCommand | undefined,
+    projectConfig: ProjectConfig
+): { timeoutMs: number; idleTimeoutMs: number } {
+    const cap = (minutes: number) => Math.min(Math.max(minutes, 1), MAX_TIMEOUT_MINUTES) * 60 * 1000;
+
+    return {
+        timeoutMs: cap(command?.options.timeoutMinutes ?? projectConfig.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES),
+        idleTimeoutMs: cap(projectConfig.idleTimeoutMinutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES)
+    };
+}
+
+// Lets log followers know when no more lines are coming
+function markLogFinished(jobId: string, finished: boolean): void {
+    if (!jobId) return;
+
+    setJobLogFinished(jobId, finished).catch(error => {
+        logger.error('Failed to update job log state', {
+            jobId,
+            error: error instanceof Error ? error.message : String(error)
+        });
+    });
+}
+
+export async function closeWorker(): Promise<void> {
+    const unsubscribe = await cancellations;
+    await unsubscribe?.();
     return worker.close();
 } 
\ No newline at end of file
@@ -9,13 +9,136 @@ export interface GitHubWebhookPayload {
       login: string;
     };
     name: string;
+    default_branch?: string;
+  };
+  // Present when the webhook is delivered by a GitHub App installation
+  installation?: {
+    id: number;
   };
   pull_request?: {
     number: number;
     head: {
       ref: string;
       sha: string;
+      repo?: { full_name: string } | null; // null once a fork is deleted
+    };
+  };
+  issue?: {
+    number: number;
+    title?: string;
+    body?: string | null;
+    // Set when the issue is actually a pull request conversation
+    pull_request?: {
+      url: string;
+    };
+  };
+  comment?: {
+    id: number;
+    body: string;
+    user: {
+      login: string;
+    };
+    // Present on pull_request_review_comment events
+    path?: string;
+    line?: number | null;
+    start_line?: number | null;
+    original_line?: number | null;
+    original_start_line?: number | null;
+    diff_hunk?: string;
+    in_reply_to_id?: number;
+  };
+}
+
+// check_run webhook payload - re-run requests for a job's check
+export interface GitHubCheckRunPayload {
+  action: string; // 'rerequested' or 'requested_action' are the ones we act on
+  check_run: {
+    id: number;
+    external_id: string | null;
+    head_sha: string;
+    pull_requests: { number: number }[];
+  };
+  requested_action?: {
+    identifier: string;
+  };
+  repository: GitHubWebhookPayload['repository'];
+  installation?: GitHubWebhookPayload['installation'];
+  sender: {
+    login: string;
+  };
+}
+
+// GitLab "Note Hook" payload - comments on merge requests and issues
+export interface GitLabNotePayload {
+  object_kind: string; // 'note'
+  user: {
+    username: string;
+  };
+  project: {
+    id: number;
+    path_with_namespace: string;
+    git_http_url: string;
+    default_branch?: string;
+    visibility_level: number; // 0 private, 10 internal, 20 public
+  };
+  object_attributes: {
+    id: number;
+    note: string;
+    noteable_type: string; // 'MergeRequest', 'Issue', 'Commit' or 'Snippet'
+    action?: string;       // 'create' or 'update', sent by newer GitLab versions
+    system?: boolean;      // notes GitLab writes itself, e.g. "added 1 commit"
+    type?: string | null;  // 'DiffNote' for comments on the diff
+    discussion_id?: string;
+    position?: {
+      new_path?: string;
+      old_path?: string;
+      new_line?: number | null;
+      old_line?: number | null;
+      line_range?: {
+        start?: { new_line?: number | null; old_line?: number | null };
+      } | null;
+    } | null;
+    st_diff?: {
+      diff?: string;
+    } | null;
+  };
+  merge_request?: {
+    iid: number;
+    title: string;
+    source_branch: string;
+    target_branch: string;
+    source_project_id?: number;
+    target_project_id?: number;
+    source?: { path_with_namespace: string } | null;
+    last_commit?: {
+      id: string;
+    };
+  };
+  issue?: {
+    iid: number;
+    title: string;
+    description?: string | null;
+  };
+}
+
+// Gitea issue_comment payload - close to GitHub's, with is_pull marking pull request threads
+export interface GiteaCommentPayload {
+  action?: string;
+  repository: {
+    full_name: string;
+    clone_url: string;
+    private: boolean;
+    owner: {
+      login: string;
     };
+    name: string;
+    default_branch?: string;
+  };
+  issue?: {
+    number: number;
+    title?: string;
+    body?: string | null;
+    pull_request?: object | null;
   };
   comment?: {
     id: number;
@@ -24,6 +147,101 @@ export interface GitHubWebhookPayload {
       login: string;
     };
   };
+  is_pull?: boolean;
+}
+
+// Branch created for a job triggered from a plain issue
+export interface IssueWorkBranch {
+  issueNumber: number;
+  issueTitle: string;
+  branch: string;
+  baseBranch: string;
+}
+
+// Diff location of a pull_request_review_comment trigger
+export interface ReviewCommentLocation {
+  commentId: number;
+  threadId: number; // top-level comment of the review thread, used for replies
+  path: string;
+  startLine: number | null;
+  endLine: number | null;
+  diffHunk: string;
+  discussionId?: string; // GitLab addresses threads by discussion rather than comment id
+}
+
+// Normalized trigger shared by the orchestrator, queue and prompt builder
+export type TriggerEvent = 'issue_comment' | 'pull_request_review_comment' | 'manual';
+
+// Where a repository is hosted
+export type ProviderName = 'github' | 'gitlab' | 'gitea';
+
+export interface TriggerRepository {
+  provider?: ProviderName; // jobs recorded before providers were added are GitHub's
+  fullName: string;
+  owner: string;
+  name: string;
+  cloneUrl: string;
+  private: boolean;
+  defaultBranch?: string;
+}
+
+export interface PullRequestTarget {
+  type: 'pull_request';
+  number: number;
+  headRef: string;
+  headSha: string;
+  baseRef?: string;
+  // "owner/repo" the head branch lives on - another one for forks, null once the fork is deleted.
+  // Missing on jobs queued before forks were tracked.
+  headRepository?: string | null;
+}
+
+export interface IssueTarget {
+  type: 'issue';
+  number: number;
+  title: string;
+  body: string;
+}
+
+export interface TriggerContext {
+  event: TriggerEvent;
+  deliveryId?: string;
+  repository: TriggerRepository;
+  target: PullRequestTarget | IssueTarget;
+  comment: {
+    id: number;
+    body: string;
+    author: string;
+  };
+  reviewLocation?: ReviewCommentLocation;
+}
+
+// Command Types
+export type GeminiCommandName =
+  | 'implement'
+  | 'fix-tests'
+  | 'review'
+  | 'explain'
+  | 'cancel'
+  | 'retry'
+  | 'status';
+
+// Commands that run Gemini and are routed to the job queue
+export type GeminiJobKind = 'implement' | 'fix-tests' | 'review' | 'explain';
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export interface GeminiCommandOptions {
+  model?: string;
+  push: boolean;
+  priority?: JobPriority;
+  timeoutMinutes?: number;
+}
+
+export interface ParsedCommand {
+  name: GeminiCommandName;
+  args: string;
+  options: GeminiCommandOptions;
 }
 
 // Project Type Definitions
@@ -60,6 +278,8 @@ export interface ProjectConfig {
   customPrompts?: Record<string, string>;
   environmentVariables?: Record<string, string>;
   additionalCommands?: Record<string, string>;
+  timeoutMinutes?: number;      // wall-clock limit for a Gemini run in this repo
+  idleTimeoutMinutes?: number;  // limit on time without any output
 }
 
 // Detection Rules
@@ -130,7 +350,7 @@ export interface PromptContext {
   projectConfig: ProjectConfig;
   featureSpec: string;
   repositoryPath: string;
-  webhookPayload: GitHubWebhookPayload;
+  trigger: TriggerContext;
   additionalContext?: Record<string, any>;
 }
 
@@ -168,7 +388,7 @@ export interface LogEntry {
 export interface WebhookServerConfig {
   port: number;
   path: string;
-  secret?: string;
+  secrets: string[]; // the first signs new deliveries; the rest are still accepted while rotating
   cors: {
     origin: string[];
   };
@@ -212,6 +432,101 @@ export interface JobResult {
   error?: string;
 }
 
+// Persistent Job History
+export type JobRecordStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRecord {
+  id: string;
+  kind: GeminiJobKind;
+  status: JobRecordStatus;
+  repository: string;
+  targetType: 'pull_request' | 'issue';
+  targetNumber: number;
+  user: string;
+  trigger: TriggerContext;
+  command: ParsedCommand;
+  promptHash: string | null;
+  exitCode: number | null;
+  durationMs: number | null;
+  commits: string[];
+  error: string | null;
+  log?: string; // omitted from list queries
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface JobQuery {
+  repository?: string;
+  user?: string;
+  status?: JobRecordStatus;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+  limit?: number;
+  offset?: number;
+}
+
+// Reactions used to acknowledge triggering comments
+export type CommentReaction = 'eyes' | 'rocket' | '+1' | 'confused';
+
+// GitHub Check Runs
+export type CheckRunStatus = 'queued' | 'in_progress' | 'completed';
+
+export type CheckRunConclusion = 'success' | 'failure' | 'cancelled' | 'timed_out' | 'neutral';
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  message: string;
+  title?: string;
+}
+
+export interface CheckRunUpdate {
+  status: CheckRunStatus;
+  conclusion?: CheckRunConclusion; // required when completed
+  detailsUrl?: string;
+  output?: {
+    title: string;
+    summary: string;
+    annotations?: CheckRunAnnotation[];
+  };
+  actions?: { label: string; description: string; identifier: string }[];
+}
+
+// Access Policy
+// Repository roles in increasing order of access
+export type RepositoryPermission = 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+export interface AccessRule {
+  // Who the rule applies to - every condition given must hold; none means everyone
+  users?: string[];                  // logins on the rule's provider
+  teams?: string[];                  // "org/team-slug"
+  permission?: RepositoryPermission; // minimum role on the target repository
+  repositories?: string[];           // "owner/repo" or "owner/*", defaults to all
+  provider?: ProviderName;           // where the users and teams are, defaults to GitHub
+  // What the rule grants - "*" or omitted means everything
+  commands?: string[];
+  models?: string[];
+  priority?: JobPriority;            // queue lane for jobs the rule admits, e.g. "high" for maintainers
+}
+
+export interface AccessPolicyConfig {
+  repositories?: {
+    allow?: string[];
+    deny?: string[];
+    tiers?: Record<string, JobPriority>; // queue lane by "owner/repo" or "owner/*" pattern, first match wins
+  };
+  rules: AccessRule[];
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason?: string; // shown to the requester when denied
+  priority?: JobPriority; // queue lane from the policy, adjusted by the command's --priority
+}
+
 // Error Types
 export class RepositoryError extends Error {
   constructor(
@@ -224,6 +539,16 @@ export class RepositoryError extends Error {
   }
 }
 
+export class ProviderApiError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ProviderApiError';
+  }
+}
+
 export class ProjectDetectionError extends Error {
   constructor(
     message: string,
@@ -234,6 +559,16 @@ export class ProjectDetectionError extends Error {
   }
 }
 
+export class CommandParseError extends Error {
+  constructor(
+    message: string,
+    public command?: string
+  ) {
+    super(message);
+    this.name = 'CommandParseError';
+  }
+}
+
 export class GeminiExecutionError extends Error {
   constructor(
     message: string,
@@ -243,4 +578,33 @@ export class GeminiExecutionError extends Error {
     super(message);
     this.name = 'GeminiExecutionError';
   }
-} 
\ No newline at end of file
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor(
+    public jobId: string,
+    public requestedBy?: string
+  ) {
+    super(`Job ${jobId} was cancelled${requestedBy ? ` by ${requestedBy}` : ''}`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(
+    public kind: 'wall-clock' | 'idle',
+    public limitMs: number
+  ) {
+    super(kind === 'idle'
+      ? `Gemini produced no output for ${Math.round(limitMs / 60000)} minute(s)`
+      : `Gemini did not finish within ${Math.round(limitMs / 60000)} minute(s)`);
+    this.name = 'TimeoutError';
+  }
+}
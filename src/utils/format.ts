@@ -0,0 +1,9 @@
+/**
+ * Formats a duration as e.g. "45s" or "3m 12s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
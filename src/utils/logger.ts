@@ -1,4 +1,5 @@
 import { LogLevel, LogEntry } from '../types';
+import { redactSecrets } from './redact';
 
 export class Logger {
   private service: string;
@@ -89,7 +90,8 @@ export class Logger {
       formatted += ` ${JSON.stringify(metadata)}`;
     }
 
-    return formatted;
+    // Errors from git and Octokit can carry tokens and URLs with credentials
+    return redactSecrets(formatted);
   }
 
   // Static method to create logger with environment-based log level
@@ -0,0 +1,31 @@
+import { ChildProcess } from 'child_process';
+
+/**
+ * Kills a child spawned with `detached: true` together with everything it started.
+ * Sends SIGTERM to the process group, then SIGKILL if it is still alive after the grace period.
+ */
+export function killProcessTree(child: ChildProcess, graceMs: number = 5000): void {
+  if (!child.pid || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  const pid = child.pid;
+  const signalGroup = (signal: NodeJS.Signals): void => {
+    try {
+      // A negative pid targets the whole process group led by the child
+      process.kill(-pid, signal);
+    } catch {
+      // Not a group leader (or already gone) - fall back to the child itself
+      try {
+        child.kill(signal);
+      } catch {
+        // Already exited
+      }
+    }
+  };
+
+  signalGroup('SIGTERM');
+
+  // Grandchildren can outlive the child, so the group is force-killed regardless
+  setTimeout(() => signalGroup('SIGKILL'), graceMs).unref();
+}